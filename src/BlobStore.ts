@@ -0,0 +1,39 @@
+/**
+ * Base class of the blob store drivers, holding the content of the
+ * bundles, source maps and assets.
+ *
+ * Blobs are identified by a key whose first segment is the kind of blob
+ * (`bundles`, `sourcemaps` or `assets`), for example `bundles/<bundleId>`
+ * or `assets/<hash>/logo@2x.png`.
+ */
+export abstract class BlobStore {
+  /**
+   * Stores a blob, replacing any existing blob with the same key.
+   */
+  public abstract put(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Gets the content of a blob.
+   * Rejects if the blob does not exist.
+   */
+  public abstract get(key: string): Promise<Buffer>;
+
+  public abstract has(key: string): Promise<boolean>;
+
+  /**
+   * Gets the size in bytes of a blob.
+   * Rejects if the blob does not exist.
+   */
+  public abstract size(key: string): Promise<number>;
+
+  /**
+   * Deletes a blob.
+   * Deleting a blob that does not exist is not an error.
+   */
+  public abstract del(key: string): Promise<void>;
+
+  /**
+   * Lists the keys of all the blobs starting with a given prefix.
+   */
+  public abstract list(prefix: string): Promise<string[]>;
+}
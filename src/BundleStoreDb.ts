@@ -1,39 +1,61 @@
 /// <reference types="../types/index" />
 
+import crypto from "crypto";
 import debug from "debug";
-import fs from "fs";
 import _ from "lodash";
-import path from "path";
-import shell from "shelljs";
 import uuidv4 from "uuid/v4";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+
+// Label names shaped like bundle ids are reserved
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Base class of the bundle store database backends.
+ * All reads are served from the in-memory database, while all writes are
+ * expressed as mutations that are applied in memory and then handed over
+ * to the backend to be persisted.
+ */
+export abstract class BundleStoreDb {
+  public static hashAccessKey(key: string): string {
+    return crypto
+      .createHash("sha256")
+      .update(key)
+      .digest("hex");
+  }
+
+  public static isExpired(accessKey: AccessKey) {
+    return !!accessKey.expiresAt && accessKey.expiresAt <= Date.now();
+  }
+
+  public static hasScope(accessKey: AccessKey, scope: AccessKeyScope) {
+    return (
+      accessKey.scopes.includes("admin") || accessKey.scopes.includes(scope)
+    );
+  }
 
-export class BundleStoreDb {
   public readonly dbPath: string;
 
-  private readonly d = debug("BundleStoreDb");
+  protected readonly d = debug("BundleStoreDb");
+
+  protected db: Db;
 
-  private db: Db;
+  private readonly signingSecret: string;
 
+  /**
+   * @param signingSecret Secret signing the resources, kept out of the
+   * database so that reading the database does not allow to forge
+   * signatures. Signatures do not survive a restart if not provided.
+   */
   constructor({
     dbPath,
-    seed = {
-      assets: {},
-      stores: {},
-    },
+    signingSecret = crypto.randomBytes(32).toString("hex"),
   }: {
     dbPath: string;
-    seed?: Db;
+    signingSecret?: string;
   }) {
-    this.d(`ctor(dbPath: ${dbPath}, seed: ${seed})`);
+    this.d(`ctor(dbPath: ${dbPath})`);
     this.dbPath = dbPath;
-    if (!fs.existsSync(dbPath)) {
-      shell.mkdir("-p", path.dirname(dbPath));
-      this.db = seed;
-      fs.writeFileSync(dbPath, JSON.stringify(this.db));
-      this.d(`created new database in ${dbPath}`);
-    } else {
-      this.db = JSON.parse(fs.readFileSync(this.dbPath).toString());
-    }
+    this.signingSecret = signingSecret;
   }
 
   public get data(): Db {
@@ -79,11 +101,32 @@ export class BundleStoreDb {
       (b) => b.id === bundleId,
     );
     if (!bundle) {
-      throw new Error(`Bundle ${bundleId} does not exist in store ${storeId}`);
+      throw new NotFoundError(
+        `Bundle ${bundleId} does not exist in store ${storeId}`,
+        { code: "BUNDLE_NOT_FOUND", details: { bundleId, storeId } },
+      );
     }
     return bundle;
   }
 
+  public getBundles({
+    filter = {},
+    platform,
+    storeId,
+  }: {
+    filter?: BundleFilter;
+    platform?: Platform;
+    storeId: string;
+  }): Bundle[] {
+    this.throwIfStoreDoesNotExist(storeId);
+    return _.filter(
+      this.db.stores[storeId].bundles,
+      (b) =>
+        (!platform || b.platform === platform) &&
+        this.bundleMatchesFilter(b, filter),
+    );
+  }
+
   public getLatestBundle({
     platform,
     storeId,
@@ -93,13 +136,40 @@ export class BundleStoreDb {
   }): Bundle {
     this.throwIfStoreDoesNotExist(storeId);
     if (this.isStoreEmpty({ platform, storeId })) {
-      throw new Error(`No bundle in store ${storeId} for ${platform} platform`);
+      throw new NotFoundError(
+        `No bundle in store ${storeId} for ${platform} platform`,
+        { code: "BUNDLE_NOT_FOUND", details: { platform, storeId } },
+      );
     }
     return _.last(
       _.filter(this.db.stores[storeId].bundles, (p) => p.platform === platform),
     );
   }
 
+  public resolveBundle({
+    bundleRef,
+    platform,
+    storeId,
+  }: {
+    bundleRef: string;
+    platform: Platform;
+    storeId: string;
+  }): Bundle {
+    this.throwIfStoreDoesNotExist(storeId);
+    if (bundleRef === "latest") {
+      return this.getLatestBundle({ platform, storeId });
+    }
+    // Bundle ids take precedence, so that a label cannot shadow a bundle
+    if (this.hasBundle({ bundleId: bundleRef, storeId })) {
+      return this.getBundle({ bundleId: bundleRef, storeId });
+    }
+    if (this.hasLabel({ name: bundleRef, platform, storeId })) {
+      const label = this.getLabel({ name: bundleRef, platform, storeId });
+      return this.getBundle({ bundleId: label.bundleId, storeId });
+    }
+    return this.getBundle({ bundleId: bundleRef, storeId });
+  }
+
   public addBundle({
     bundle,
     storeId,
@@ -108,35 +178,427 @@ export class BundleStoreDb {
     storeId: string;
   }): void {
     this.throwIfStoreDoesNotExist(storeId);
-    this.db.stores[storeId].bundles.push(bundle);
-    this.write();
+    this.commit({ bundle, storeId, type: "addBundle" });
   }
 
+  /**
+   * Deletes a bundle from a store. Pinned bundles are only deleted if
+   * `force` is set.
+   */
   public delBundle({
     bundleId,
+    force = false,
     storeId,
   }: {
     bundleId: string;
+    force?: boolean;
     storeId: string;
   }): Bundle {
     this.throwIfStoreDoesNotExist(storeId);
     const bundle = this.getBundle({ bundleId, storeId });
-    _.remove(this.db.stores[storeId].bundles, (b: Bundle) => b.id === bundleId);
-    this.write();
+    if (bundle.pinned && !force) {
+      throw new ConflictError(
+        `Bundle ${bundleId} of store ${storeId} is pinned and cannot be deleted`,
+        { code: "BUNDLE_PINNED", details: { bundleId, storeId } },
+      );
+    }
+    this.commit({ bundleId, storeId, type: "delBundle" });
     return bundle;
   }
 
+  public setBundleMetadata({
+    bundleId,
+    metadata,
+    storeId,
+  }: {
+    bundleId: string;
+    metadata: BundleMetadata | null;
+    storeId: string;
+  }): Bundle {
+    this.getBundle({ bundleId, storeId });
+    this.commit({ bundleId, metadata, storeId, type: "setBundleMetadata" });
+    this.d(`set bundle ${bundleId} of store ${storeId} metadata`);
+    return this.getBundle({ bundleId, storeId });
+  }
+
+  public setBundlePinned({
+    bundleId,
+    pinned,
+    storeId,
+  }: {
+    bundleId: string;
+    pinned: boolean;
+    storeId: string;
+  }): Bundle {
+    this.getBundle({ bundleId, storeId });
+    this.commit({ bundleId, pinned, storeId, type: "setBundlePinned" });
+    this.d(`set bundle ${bundleId} of store ${storeId} pinned: ${pinned}`);
+    return this.getBundle({ bundleId, storeId });
+  }
+
+  /**
+   * Creates a new store, along with a default admin access key.
+   * The returned store contains the plain text access key in `accessKey`.
+   * This is the only time it is available, as only its hash is stored.
+   */
   public createStore(storeId: string): Store {
     this.throwIfStoreExist(storeId);
+    const key = uuidv4();
     const store = {
-      accessKey: uuidv4(),
+      accessKeys: [
+        {
+          createdAt: Date.now(),
+          hash: BundleStoreDb.hashAccessKey(key),
+          id: uuidv4(),
+          name: "default",
+          scopes: ["admin"] as AccessKeyScope[],
+        },
+      ],
       bundles: [],
       id: storeId,
+      labels: [],
     };
-    this.db.stores[storeId] = store;
-    this.write();
-    this.d(`created new store: ${store}`);
-    return store;
+    this.commit({ store, type: "createStore" });
+    this.d(`created new store: ${store.id}`);
+    return { ...store, accessKey: key };
+  }
+
+  public getAccessKeys(storeId: string): AccessKey[] {
+    this.throwIfStoreDoesNotExist(storeId);
+    return this.db.stores[storeId].accessKeys;
+  }
+
+  public getAccessKey({
+    keyId,
+    storeId,
+  }: {
+    keyId: string;
+    storeId: string;
+  }): AccessKey {
+    const accessKey = _.find(
+      this.getAccessKeys(storeId),
+      (k) => k.id === keyId,
+    );
+    if (!accessKey) {
+      throw new NotFoundError(
+        `Access key ${keyId} does not exist in store ${storeId}`,
+        { code: "ACCESS_KEY_NOT_FOUND", details: { keyId, storeId } },
+      );
+    }
+    return accessKey;
+  }
+
+  /**
+   * Finds the access key of a store matching a plain text key.
+   * Expired access keys are ignored.
+   */
+  public findAccessKey({
+    key,
+    storeId,
+  }: {
+    key: string;
+    storeId: string;
+  }): AccessKey | undefined {
+    const hash = BundleStoreDb.hashAccessKey(key);
+    return _.find(
+      this.getAccessKeys(storeId),
+      (k) => k.hash === hash && !BundleStoreDb.isExpired(k),
+    );
+  }
+
+  public findStoreByAccessKey(key: string): Store | undefined {
+    return _.find(
+      this.db.stores,
+      (s) => !!this.findAccessKey({ key, storeId: s.id }),
+    );
+  }
+
+  /**
+   * Creates a new access key for a store.
+   * Returns the access key along with its plain text key, that is not
+   * stored and cannot be retrieved later on.
+   */
+  public createAccessKey({
+    expiresAt,
+    name,
+    scopes,
+    storeId,
+  }: {
+    expiresAt?: number;
+    name: string;
+    scopes: AccessKeyScope[];
+    storeId: string;
+  }): { accessKey: AccessKey; key: string } {
+    this.throwIfStoreDoesNotExist(storeId);
+    const key = uuidv4();
+    const accessKey: AccessKey = {
+      createdAt: Date.now(),
+      hash: BundleStoreDb.hashAccessKey(key),
+      id: uuidv4(),
+      name,
+      scopes,
+    };
+    if (expiresAt) {
+      accessKey.expiresAt = expiresAt;
+    }
+    this.commit({ accessKey, storeId, type: "setAccessKey" });
+    this.d(`created access key ${name} in store ${storeId}`);
+    return { accessKey, key };
+  }
+
+  /**
+   * Replaces the plain text key of an access key, keeping its name,
+   * scopes and expiry. The previous key stops working immediately.
+   */
+  public rotateAccessKey({
+    keyId,
+    storeId,
+  }: {
+    keyId: string;
+    storeId: string;
+  }): { accessKey: AccessKey; key: string } {
+    const key = uuidv4();
+    const accessKey = {
+      ...this.getAccessKey({ keyId, storeId }),
+      hash: BundleStoreDb.hashAccessKey(key),
+    };
+    this.commit({ accessKey, storeId, type: "setAccessKey" });
+    this.d(`rotated access key ${keyId} in store ${storeId}`);
+    return { accessKey, key };
+  }
+
+  /**
+   * Revokes all the access keys of a store, and replaces them with a new
+   * default admin access key.
+   */
+  public resetAccessKeys(
+    storeId: string,
+  ): { accessKey: AccessKey; key: string } {
+    for (const { id } of [...this.getAccessKeys(storeId)]) {
+      this.commit({ keyId: id, storeId, type: "delAccessKey" });
+    }
+    this.d(`reset access keys of store ${storeId}`);
+    return this.createAccessKey({
+      name: "default",
+      scopes: ["admin"],
+      storeId,
+    });
+  }
+
+  /**
+   * Signs a resource of a store with an access key, until `expiresAt`.
+   * Signatures can be handed out in place of the access key without
+   * revealing it. They cover the access key hash, and thus stop being valid
+   * as soon as the access key is rotated, revoked or expires.
+   */
+  public signResource({
+    expiresAt,
+    keyId,
+    resource,
+    storeId,
+  }: {
+    expiresAt: number;
+    keyId: string;
+    resource: string;
+    storeId: string;
+  }): string {
+    const accessKey = this.getAccessKey({ keyId, storeId });
+    return this.sign({ accessKey, expiresAt, resource, storeId });
+  }
+
+  /**
+   * Finds the access key of a store that signed a resource.
+   * Expired signatures, as well as signatures of expired access keys,
+   * are ignored.
+   */
+  public findAccessKeyBySignature({
+    expiresAt,
+    keyId,
+    resource,
+    signature,
+    storeId,
+  }: {
+    expiresAt: number;
+    keyId: string;
+    resource: string;
+    signature: string;
+    storeId: string;
+  }): AccessKey | undefined {
+    if (!(expiresAt > Date.now())) {
+      return;
+    }
+    const accessKey = _.find(
+      this.getAccessKeys(storeId),
+      (k) => k.id === keyId && !BundleStoreDb.isExpired(k),
+    );
+    if (!accessKey) {
+      return;
+    }
+    if (!/^[0-9a-f]{64}$/.test(signature)) {
+      return;
+    }
+    const expected = this.sign({ accessKey, expiresAt, resource, storeId });
+    return crypto.timingSafeEqual(
+      Buffer.from(signature, "hex"),
+      Buffer.from(expected, "hex"),
+    )
+      ? accessKey
+      : undefined;
+  }
+
+  /**
+   * Creates a token granting the scopes of an access key on the whole
+   * store until `expiresAt`.
+   */
+  public createAccessToken({
+    expiresAt,
+    keyId,
+    storeId,
+  }: {
+    expiresAt: number;
+    keyId: string;
+    storeId: string;
+  }): string {
+    const signature = this.signResource({
+      expiresAt,
+      keyId,
+      resource: "*",
+      storeId,
+    });
+    return `${keyId}.${expiresAt}.${signature}`;
+  }
+
+  public findAccessKeyByToken({
+    storeId,
+    token,
+  }: {
+    storeId: string;
+    token: string;
+  }): AccessKey | undefined {
+    const [keyId, expiresAt, signature] = token.split(".");
+    return signature
+      ? this.findAccessKeyBySignature({
+          expiresAt: parseInt(expiresAt, 10),
+          keyId,
+          resource: "*",
+          signature,
+          storeId,
+        })
+      : undefined;
+  }
+
+  public revokeAccessKey({
+    keyId,
+    storeId,
+  }: {
+    keyId: string;
+    storeId: string;
+  }): AccessKey {
+    const accessKey = this.getAccessKey({ keyId, storeId });
+    this.commit({ keyId, storeId, type: "delAccessKey" });
+    this.d(`revoked access key ${keyId} in store ${storeId}`);
+    return accessKey;
+  }
+
+  public getLabels({
+    platform,
+    storeId,
+  }: {
+    platform?: Platform;
+    storeId: string;
+  }): Label[] {
+    this.throwIfStoreDoesNotExist(storeId);
+    return _.filter(
+      this.db.stores[storeId].labels,
+      (l) => !platform || l.platform === platform,
+    );
+  }
+
+  public hasLabel({
+    name,
+    platform,
+    storeId,
+  }: {
+    name: string;
+    platform: Platform;
+    storeId: string;
+  }): boolean {
+    this.throwIfStoreDoesNotExist(storeId);
+    return _.some(
+      this.db.stores[storeId].labels,
+      (l) => l.name === name && l.platform === platform,
+    );
+  }
+
+  public getLabel({
+    name,
+    platform,
+    storeId,
+  }: {
+    name: string;
+    platform: Platform;
+    storeId: string;
+  }): Label {
+    this.throwIfStoreDoesNotExist(storeId);
+    const label = _.find(
+      this.db.stores[storeId].labels,
+      (l) => l.name === name && l.platform === platform,
+    );
+    if (!label) {
+      throw new NotFoundError(
+        `Label ${name} does not exist for ${platform} platform in store ${storeId}`,
+        { code: "LABEL_NOT_FOUND", details: { name, platform, storeId } },
+      );
+    }
+    return label;
+  }
+
+  public setLabel({
+    bundleId,
+    name,
+    platform,
+    storeId,
+  }: {
+    bundleId: string;
+    name: string;
+    platform: Platform;
+    storeId: string;
+  }): Label {
+    if (
+      !/^[a-zA-Z][\w.-]*$/.test(name) ||
+      name === "latest" ||
+      UUID_PATTERN.test(name)
+    ) {
+      throw new ValidationError(`${name} is not a valid label name`, {
+        code: "INVALID_LABEL",
+      });
+    }
+    const bundle = this.getBundle({ bundleId, storeId });
+    if (bundle.platform !== platform) {
+      throw new ValidationError(
+        `Bundle ${bundleId} is not a ${platform} bundle and cannot be labeled as ${name}`,
+        { code: "PLATFORM_MISMATCH" },
+      );
+    }
+    const label = { bundleId, name, platform, timestamp: Date.now() };
+    this.commit({ label, storeId, type: "setLabel" });
+    this.d(`set label ${name} to bundle ${bundleId} in store ${storeId}`);
+    return label;
+  }
+
+  public delLabel({
+    name,
+    platform,
+    storeId,
+  }: {
+    name: string;
+    platform: Platform;
+    storeId: string;
+  }): Label {
+    const label = this.getLabel({ name, platform, storeId });
+    this.commit({ name, platform, storeId, type: "delLabel" });
+    this.d(`deleted label ${name} from store ${storeId}`);
+    return label;
   }
 
   public hasStore(storeId: string): boolean {
@@ -151,12 +613,37 @@ export class BundleStoreDb {
   public delStore(storeId: string): Store {
     this.throwIfStoreDoesNotExist(storeId);
     const store = this.db.stores[storeId];
-    delete this.db.stores[storeId];
-    this.write();
+    this.commit({ storeId, type: "delStore" });
     this.d(`deleted store: ${store.id}`);
     return store;
   }
 
+  public setStorePrivate({
+    isPrivate,
+    storeId,
+  }: {
+    isPrivate: boolean;
+    storeId: string;
+  }): Store {
+    this.throwIfStoreDoesNotExist(storeId);
+    this.commit({ isPrivate, storeId, type: "setStorePrivate" });
+    this.d(`set store ${storeId} private: ${isPrivate}`);
+    return this.db.stores[storeId];
+  }
+
+  public setStoreRetention({
+    retention,
+    storeId,
+  }: {
+    retention: RetentionPolicy | null;
+    storeId: string;
+  }): Store {
+    this.throwIfStoreDoesNotExist(storeId);
+    this.commit({ retention, storeId, type: "setStoreRetention" });
+    this.d(`set store ${storeId} retention: ${JSON.stringify(retention)}`);
+    return this.db.stores[storeId];
+  }
+
   public getStores(): Stores {
     return this.db.stores;
   }
@@ -165,31 +652,226 @@ export class BundleStoreDb {
     return this.db.assets;
   }
 
-  public createAssets(assets: string[]): Assets {
+  public createAssets(
+    assets: string[],
+    createdAt: number = Date.now(),
+  ): Assets {
     const createdAssets = {};
     for (const asset of assets) {
-      createdAssets[asset] = {};
+      createdAssets[asset] = { createdAt };
     }
-    Object.assign(this.db.assets, createdAssets);
-    this.write();
-    this.d(`created assets: ${createdAssets}`);
+    this.commit({ assets, createdAt, type: "createAssets" });
+    this.d(`created assets: ${assets}`);
     return createdAssets;
   }
 
+  public delAssets(assets: string[]) {
+    this.commit({ assets, type: "delAssets" });
+    this.d(`deleted assets: ${assets}`);
+  }
+
   public throwIfStoreDoesNotExist(storeId: string): never | void {
     if (!this.hasStore(storeId)) {
-      throw new Error(`Store id ${storeId} does not exist in database.`);
+      throw new NotFoundError(
+        `Store id ${storeId} does not exist in database.`,
+        {
+          code: "STORE_NOT_FOUND",
+          details: { storeId },
+        },
+      );
     }
   }
 
   public throwIfStoreExist(storeId: string): never | void {
     if (this.hasStore(storeId)) {
-      throw new Error(`Store id ${storeId} already exist in database.`);
+      throw new ConflictError(
+        `Store id ${storeId} already exist in database.`,
+        {
+          code: "STORE_ALREADY_EXISTS",
+          details: { storeId },
+        },
+      );
+    }
+  }
+
+  public bundleMatchesFilter(bundle: Bundle, filter: BundleFilter): boolean {
+    const metadata = bundle.metadata || {};
+    const { tags = {}, ...fields } = filter;
+    return (
+      _.every(fields, (value, key) => metadata[key] === value) &&
+      _.every(tags, (value, key) => (metadata.tags || {})[key] === value)
+    );
+  }
+
+  /**
+   * Upgrades a freshly loaded database to the current database format.
+   * Should be called by the backends once the database is loaded, before
+   * replaying any pending mutation.
+   * Returns whether plain text access keys were hashed, in which case the
+   * backend should persist the database right away, so that the plain text
+   * keys do not linger on disk.
+   */
+  protected upgrade(): boolean {
+    let hashedKeys = false;
+    for (const store of Object.values(this.db.stores)) {
+      store.accessKeys = store.accessKeys || [];
+      if (store.accessKey) {
+        hashedKeys = true;
+        store.accessKeys.push({
+          createdAt: 0,
+          hash: BundleStoreDb.hashAccessKey(store.accessKey),
+          id: "default",
+          name: "default",
+          scopes: ["admin"],
+        });
+        delete store.accessKey;
+      }
+    }
+    return hashedKeys;
+  }
+
+  protected commit(mutation: DbMutation) {
+    this.apply(mutation);
+    this.persist(mutation);
+  }
+
+  /**
+   * Applies a mutation to the in-memory database.
+   * Applying a mutation more than once should have the same effect as
+   * applying it once, so that backends can safely replay mutations that
+   * might already have been persisted.
+   */
+  protected apply(mutation: DbMutation) {
+    switch (mutation.type) {
+      case "addBundle": {
+        const { bundles } = this.db.stores[mutation.storeId];
+        const idx = _.findIndex(bundles, (b) => b.id === mutation.bundle.id);
+        if (idx === -1) {
+          bundles.push(mutation.bundle);
+        } else {
+          bundles[idx] = mutation.bundle;
+        }
+        break;
+      }
+      case "delBundle": {
+        const store = this.db.stores[mutation.storeId];
+        _.remove(store.bundles, (b) => b.id === mutation.bundleId);
+        _.remove(store.labels, (l) => l.bundleId === mutation.bundleId);
+        break;
+      }
+      case "setBundleMetadata": {
+        const bundle = _.find(
+          this.db.stores[mutation.storeId].bundles,
+          (b) => b.id === mutation.bundleId,
+        )!;
+        if (mutation.metadata) {
+          bundle.metadata = mutation.metadata;
+        } else {
+          delete bundle.metadata;
+        }
+        break;
+      }
+      case "setBundlePinned": {
+        const bundle = _.find(
+          this.db.stores[mutation.storeId].bundles,
+          (b) => b.id === mutation.bundleId,
+        )!;
+        if (mutation.pinned) {
+          bundle.pinned = true;
+        } else {
+          delete bundle.pinned;
+        }
+        break;
+      }
+      case "setLabel": {
+        const store = this.db.stores[mutation.storeId];
+        const { name, platform } = mutation.label;
+        store.labels = store.labels || [];
+        _.remove(
+          store.labels,
+          (l) => l.name === name && l.platform === platform,
+        );
+        store.labels.push(mutation.label);
+        break;
+      }
+      case "delLabel":
+        _.remove(
+          this.db.stores[mutation.storeId].labels,
+          (l) => l.name === mutation.name && l.platform === mutation.platform,
+        );
+        break;
+      case "createStore":
+        this.db.stores[mutation.store.id] = mutation.store;
+        break;
+      case "setAccessKey": {
+        const { accessKeys } = this.db.stores[mutation.storeId];
+        const idx = _.findIndex(
+          accessKeys,
+          (k) => k.id === mutation.accessKey.id,
+        );
+        if (idx === -1) {
+          accessKeys.push(mutation.accessKey);
+        } else {
+          accessKeys[idx] = mutation.accessKey;
+        }
+        break;
+      }
+      case "delAccessKey":
+        _.remove(
+          this.db.stores[mutation.storeId].accessKeys,
+          (k) => k.id === mutation.keyId,
+        );
+        break;
+      case "setStorePrivate":
+        this.db.stores[mutation.storeId].private = mutation.isPrivate;
+        break;
+      case "setStoreRetention":
+        if (mutation.retention) {
+          this.db.stores[mutation.storeId].retention = mutation.retention;
+        } else {
+          delete this.db.stores[mutation.storeId].retention;
+        }
+        break;
+      case "delStore":
+        delete this.db.stores[mutation.storeId];
+        break;
+      case "createAssets":
+        for (const asset of mutation.assets) {
+          this.db.assets[asset] = mutation.createdAt
+            ? { createdAt: mutation.createdAt }
+            : {};
+        }
+        break;
+      case "delAssets":
+        for (const asset of mutation.assets) {
+          delete this.db.assets[asset];
+        }
+        break;
     }
   }
 
-  public write() {
-    this.d(`write database`);
-    fs.writeFileSync(this.dbPath, JSON.stringify(this.db));
+  /**
+   * Persists a mutation that has already been applied to the in-memory
+   * database.
+   */
+  protected abstract persist(mutation: DbMutation): void;
+
+  private sign({
+    accessKey,
+    expiresAt,
+    resource,
+    storeId,
+  }: {
+    accessKey: AccessKey;
+    expiresAt: number;
+    resource: string;
+    storeId: string;
+  }): string {
+    return crypto
+      .createHmac("sha256", this.signingSecret)
+      .update(
+        `${storeId}.${accessKey.id}.${accessKey.hash}.${expiresAt}.${resource}`,
+      )
+      .digest("hex");
   }
 }
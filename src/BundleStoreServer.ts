@@ -1,5 +1,6 @@
 /// <reference types="../types/index" />
 
+import crypto from "crypto";
 import debug from "debug";
 import express from "express";
 import expressWs from "express-ws";
@@ -9,18 +10,174 @@ import multer from "multer";
 import path from "path";
 import shell from "shelljs";
 import { SourceMapConsumer } from "source-map";
+import tmp from "tmp";
+import url from "url";
+import util from "util";
 import uuidv4 from "uuid/v4";
 import yauzl from "yauzl";
+import zlib from "zlib";
+import { BlobStore } from "./BlobStore";
 import { BundleStoreDb } from "./BundleStoreDb";
+import { createBlobStore } from "./createBlobStore";
+import { createBundleStoreDb } from "./createBundleStoreDb";
+import { createCodeFrame } from "./createCodeFrame";
+import {
+  BundleStoreError,
+  ConflictError,
+  NotFoundError,
+  PayloadTooLargeError,
+  UnauthorizedError,
+  ValidationError,
+} from "./errors";
+import { formatStackTrace, parseStackTrace } from "./parseStackTrace";
+import {
+  SourceMapConsumerCache,
+  SourceMapConsumerHandle,
+} from "./SourceMapConsumerCache";
+import { writeFileAtomicSync } from "./writeFileAtomicSync";
+
+/**
+ * Precompressed variants of the bundles, in order of preference.
+ */
+const bundleVariants: Array<{
+  compress: (data: Buffer) => Promise<Buffer>;
+  encoding: ContentEncoding;
+  extension: string;
+}> = [
+  {
+    compress: util.promisify(zlib.brotliCompress),
+    encoding: "br",
+    extension: ".br",
+  },
+  {
+    compress: util.promisify(zlib.gzip),
+    encoding: "gzip",
+    extension: ".gz",
+  },
+];
+
+/**
+ * Files of the frames collapsed by default in symbolicated stacks: node
+ * modules and React Native internals, as collapsed by Metro.
+ */
+const DEFAULT_COLLAPSE_FRAME_PATTERNS = [
+  "(^|[\\\\/])node_modules[\\\\/]",
+  "(^|[\\\\/])Libraries[\\\\/](BatchedBridge|Core[\\\\/]Timers|LogBox|Renderer|YellowBox)[\\\\/]",
+];
+
+/**
+ * Magic number starting the Hermes bytecode files, in little endian.
+ */
+const HERMES_BYTECODE_MAGIC = Buffer.from([
+  0xc6,
+  0x1f,
+  0xbc,
+  0x03,
+  0xc1,
+  0x03,
+  0x19,
+  0x1f,
+]);
+
+const BUNDLE_CONTENT_TYPES: { [format in BundleFormat]: string } = {
+  hbc: "application/x-hermes-bytecode",
+  js: "application/javascript",
+};
+
+/**
+ * Hermes reports the frames of bytecode bundles without debug info as
+ * `address at <file>:1:<bytecode offset>`. The composed source maps of these
+ * bundles map bytecode offsets as columns of the first line, so once the
+ * prefix is stripped from their file they are symbolicated as JS frames.
+ */
+const HERMES_ADDRESS_PREFIX = "address at ";
+
+/**
+ * Whether a frame belongs to the Hermes bytecode of a bundle rather than
+ * to its JS source: frames of bytecode without debug info, or frames of
+ * the bytecode downloaded with the `format=hbc` query parameter.
+ */
+function isHermesBytecodeFrame(frame: StackFrame): boolean {
+  return (
+    !!frame &&
+    _.isString(frame.file) &&
+    (frame.file.startsWith(HERMES_ADDRESS_PREFIX) ||
+      /[?&]format=hbc(&|$)/.test(frame.file))
+  );
+}
+
+function stripHermesAddress(frame: StackFrame): StackFrame {
+  return frame &&
+    _.isString(frame.file) &&
+    frame.file.startsWith(HERMES_ADDRESS_PREFIX)
+    ? { ...frame, file: frame.file.slice(HERMES_ADDRESS_PREFIX.length) }
+    : frame;
+}
+
+/**
+ * File types of the Unix modes lie above their permission bits.
+ */
+const UNIX_PERMISSION_BITS = 0o10000;
+const UNIX_SYMBOLIC_LINK = 0o120000;
+
+/**
+ * Minimum age of the assets deleted by the asset garbage collection, giving
+ * clients time to upload the bundle using the assets they just uploaded.
+ */
+const ASSET_GC_MIN_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses an uploaded source map, throwing if it is not a valid version 3
+ * source map.
+ */
+function parseSourceMap(data: Buffer): any {
+  let map;
+  try {
+    map = JSON.parse(data.toString());
+  } catch (err) {
+    throw new ValidationError("source map is not valid JSON", {
+      code: "INVALID_SOURCEMAP",
+    });
+  }
+  if (
+    !_.isPlainObject(map) ||
+    map.version !== 3 ||
+    !(_.isString(map.mappings) || _.isArray(map.sections))
+  ) {
+    throw new ValidationError("source map is not a version 3 source map", {
+      code: "INVALID_SOURCEMAP",
+    });
+  }
+  return map;
+}
+
+/**
+ * Properties of an uploaded bundle derived from its stored blobs.
+ */
+type UploadedBundleBlobs = Pick<
+  Bundle,
+  "encodings" | "hash" | "hermes" | "size" | "sourceMap"
+>;
+
+function sha256(data: Buffer): string {
+  return crypto
+    .createHash("sha256")
+    .update(data)
+    .digest("hex");
+}
 
 export class BundleStoreServer {
   public readonly app: express.Application;
   public readonly wsInstance: expressWs.Instance;
   public readonly db: BundleStoreDb;
+  public readonly blobStore: BlobStore;
   public readonly config: BundleStoreServerConfig;
   public readonly storage: multer.StorageEngine;
+  public readonly sourceMapCache: SourceMapConsumerCache;
 
   private readonly d = debug("BundleStoreServer");
+  // Number of uploads in progress writing each blob
+  private readonly pendingBlobKeys = new Map<string, number>();
 
   constructor(public readonly conf: BundleStoreServerUserConfig) {
     this.config = this.normalizeUserConfig(conf);
@@ -28,11 +185,17 @@ export class BundleStoreServer {
     this.app = express();
     this.wsInstance = expressWs(this.app);
     this.setupMiddlewares();
-    this.db = new BundleStoreDb({
+    this.db = createBundleStoreDb({
+      backend: this.config.dbBackend,
       dbPath: this.config.paths.db,
       seed: this.config.dbSeed,
+      signingSecret: this.config.signingSecret || this.loadSigningSecret(),
     });
+    this.blobStore = createBlobStore(this.config.blobStore, this.config.paths);
     this.storage = this.createMulterStorage();
+    this.sourceMapCache = new SourceMapConsumerCache(
+      this.config.sourceMapCacheSize,
+    );
     this.createAppRoutes();
   }
 
@@ -40,33 +203,53 @@ export class BundleStoreServer {
     config: BundleStoreServerUserConfig,
   ): BundleStoreServerConfig {
     const cwd = process.cwd();
+    const dbBackend = config.dbBackend || "json";
+    const dbFile = dbBackend === "json" ? "db.json" : `db.${dbBackend}`;
     return {
+      adminToken: config.adminToken,
+      assetGcInterval: config.assetGcInterval || 24 * 60 * 60 * 1000,
+      blobStore: config.blobStore || { type: "fs" },
+      collapseFramePatterns:
+        config.collapseFramePatterns || DEFAULT_COLLAPSE_FRAME_PATTERNS,
+      dbBackend,
       dbSeed: config.dbSeed,
       host: config.host,
+      maxAssetsEntries: config.maxAssetsEntries || 10000,
+      maxAssetsSize: config.maxAssetsSize || 256 * 1024 * 1024,
+      maxBundleSize: config.maxBundleSize || -1,
       maxBundles: config.maxBundles || -1,
+      maxSourceMapSize: config.maxSourceMapSize || -1,
       paths: config.paths
         ? config.paths
         : config.rootPath
         ? {
             assets: path.join(config.rootPath, "assets"),
             bundles: path.join(config.rootPath, "bundles"),
-            db: path.join(config.rootPath, "db.json"),
+            db: path.join(config.rootPath, dbFile),
             sourcemaps: path.join(config.rootPath, "sourcemaps"),
           }
         : {
             assets: path.join(cwd, "assets"),
             bundles: path.join(cwd, "bundles"),
-            db: path.join(cwd, "db.json"),
+            db: path.join(cwd, dbFile),
             sourcemaps: path.join(cwd, "sourcemaps"),
           },
       port: config.port || 3000,
+      retentionSweepInterval: config.retentionSweepInterval || 60 * 60 * 1000,
+      signingSecret: config.signingSecret,
+      sourceMapCacheSize: config.sourceMapCacheSize || 256 * 1024 * 1024,
     };
   }
 
   public extractSegmentsFromBundleUrl(bundleUrl: string) {
     const re = /bundles\/([^\/]+)\/([^\/]+)\/([^\/]+)\//;
     if (!re.test(bundleUrl)) {
-      throw new Error(`bundle url ${bundleUrl} does not match regex`);
+      throw new ValidationError(
+        `bundle url ${bundleUrl} does not match regex`,
+        {
+          code: "INVALID_BUNDLE_URL",
+        },
+      );
     }
     const [
       ,
@@ -77,7 +260,266 @@ export class BundleStoreServer {
     return { bundleId, platform, storeId };
   }
 
-  public getSourceMap({
+  public parseBundleMetadata(rawMetadata: string): BundleMetadata {
+    let metadata;
+    try {
+      metadata = JSON.parse(rawMetadata);
+    } catch (err) {
+      throw new ValidationError(`bundle metadata is not valid JSON`, {
+        code: "INVALID_METADATA",
+      });
+    }
+    return this.validateBundleMetadata(metadata);
+  }
+
+  public validateBundleMetadata(metadata: any): BundleMetadata {
+    if (!_.isPlainObject(metadata)) {
+      throw new ValidationError(`bundle metadata should be a JSON object`, {
+        code: "INVALID_METADATA",
+      });
+    }
+    const fields = ["author", "branch", "commit", "description", "version"];
+    for (const key of Object.keys(metadata)) {
+      if (key === "tags") {
+        if (
+          !_.isPlainObject(metadata.tags) ||
+          !_.every(metadata.tags, _.isString)
+        ) {
+          throw new ValidationError(
+            `bundle metadata tags should map keys to strings`,
+            {
+              code: "INVALID_METADATA",
+            },
+          );
+        }
+      } else if (!fields.includes(key)) {
+        throw new ValidationError(`unknown bundle metadata field ${key}`, {
+          code: "INVALID_METADATA",
+        });
+      } else if (!_.isString(metadata[key])) {
+        throw new ValidationError(
+          `bundle metadata field ${key} should be a string`,
+          {
+            code: "INVALID_METADATA",
+          },
+        );
+      }
+    }
+    return metadata;
+  }
+
+  /**
+   * Parses the manifest of an uploaded bundle, a JSON array of the hashes
+   * of the assets used by the bundle.
+   */
+  public parseAssetManifest(rawAssets: string): string[] {
+    let assets;
+    try {
+      assets = JSON.parse(rawAssets);
+    } catch (err) {
+      throw new ValidationError(`bundle assets manifest is not valid JSON`, {
+        code: "INVALID_ASSETS",
+      });
+    }
+    if (
+      !Array.isArray(assets) ||
+      !assets.every((a) => _.isString(a) && /^[0-9a-f]{32}$/.test(a))
+    ) {
+      throw new ValidationError(
+        `bundle assets manifest should be an array of asset hashes`,
+        { code: "INVALID_ASSETS" },
+      );
+    }
+    return _.uniq(assets).sort();
+  }
+
+  /**
+   * Extracts the hashes of the assets used by a bundle, from the
+   * `registerAsset` calls generated by Metro for each required asset, with
+   * or without minification. If `strict` is set, throws if the hash of
+   * some of these calls cannot be extracted.
+   */
+  public extractAssetHashes(
+    bundle: Buffer,
+    { strict = false }: { strict?: boolean } = {},
+  ): string[] {
+    const re = /registerAsset\(\s*\{[^}]*?["']?hash["']?\s*:\s*["']([0-9a-f]{32})["']/g;
+    const source = bundle.toString();
+    const hashes = new Set<string>();
+    let matches = 0;
+    let match = re.exec(source);
+    while (match) {
+      hashes.add(match[1]);
+      matches++;
+      match = re.exec(source);
+    }
+    const calls = (source.match(/registerAsset\(\s*\{/g) || []).length;
+    if (strict && calls > matches) {
+      throw new ValidationError(
+        `${calls -
+          matches} assets of the bundle cannot be extracted, an assets manifest is required`,
+        { code: "MISSING_ASSETS" },
+      );
+    }
+    return Array.from(hashes).sort();
+  }
+
+  /**
+   * Detects the format of a bundle from its content: Hermes bytecode
+   * bundles start with the Hermes magic number, other bundles are JS.
+   */
+  public getBundleFormat(bundle: Buffer): BundleFormat {
+    const magic = bundle.slice(0, HERMES_BYTECODE_MAGIC.length);
+    return magic.equals(HERMES_BYTECODE_MAGIC) ? "hbc" : "js";
+  }
+
+  /**
+   * Validates an uploaded bundle and its source map, throwing on the first
+   * validation error found. Hermes bytecode bundles are not checked against
+   * their source map, which maps bytecode offsets rather than lines.
+   */
+  public validateUpload({
+    bundle,
+    platform,
+    sourceMap,
+  }: {
+    bundle?: UploadedFile;
+    platform: string;
+    sourceMap?: UploadedFile;
+  }) {
+    if (!["android", "ios"].includes(platform)) {
+      throw new ValidationError(`unknown platform ${platform}`, {
+        code: "INVALID_PLATFORM",
+      });
+    }
+    if (!bundle) {
+      throw new ValidationError("bundle file is missing", {
+        code: "MISSING_BUNDLE",
+      });
+    }
+    if (!sourceMap) {
+      throw new ValidationError("source map file is missing", {
+        code: "MISSING_SOURCEMAP",
+      });
+    }
+    if (!bundle.buffer) {
+      throw new PayloadTooLargeError(
+        `bundle exceeds the maximum size of ${this.config.maxBundleSize} bytes`,
+        { code: "BUNDLE_TOO_LARGE" },
+      );
+    }
+    if (!sourceMap.buffer) {
+      throw new PayloadTooLargeError(
+        `source map exceeds the maximum size of ${this.config.maxSourceMapSize} bytes`,
+        { code: "SOURCEMAP_TOO_LARGE" },
+      );
+    }
+    if (bundle.size === 0) {
+      throw new ValidationError("bundle file is empty", {
+        code: "EMPTY_BUNDLE",
+      });
+    }
+    const isBytecode = this.getBundleFormat(bundle.buffer) === "hbc";
+    const source = isBytecode ? "" : bundle.buffer.toString();
+    if (
+      !isBytecode &&
+      (bundle.buffer.includes(0) || !Buffer.from(source).equals(bundle.buffer))
+    ) {
+      throw new ValidationError("bundle is not a javascript file", {
+        code: "INVALID_BUNDLE",
+      });
+    }
+    const map = parseSourceMap(sourceMap.buffer);
+    // The source map should not map lines past the end of the bundle
+    const mappedLines = _.isString(map.mappings)
+      ? map.mappings.replace(/;+$/, "").split(";").length
+      : _.get(_.last(map.sections), "offset.line", -1) + 1;
+    if (!isBytecode && mappedLines > source.split("\n").length) {
+      throw new ValidationError(
+        "source map references lines beyond the end of the bundle",
+        { code: "SOURCEMAP_MISMATCH" },
+      );
+    }
+  }
+
+  /**
+   * Validates the Hermes bytecode uploaded along with a JS bundle, and its
+   * composed source map. Both are optional, but have to be uploaded
+   * together.
+   */
+  public validateHermesUpload({
+    bundle,
+    hbc,
+    hbcSourceMap,
+  }: {
+    bundle: UploadedFile;
+    hbc?: UploadedFile;
+    hbcSourceMap?: UploadedFile;
+  }) {
+    if (!hbc && !hbcSourceMap) {
+      return;
+    }
+    if (!hbc) {
+      throw new ValidationError("Hermes bytecode file is missing", {
+        code: "MISSING_HBC",
+      });
+    }
+    if (!hbcSourceMap) {
+      throw new ValidationError("Hermes bytecode source map file is missing", {
+        code: "MISSING_SOURCEMAP",
+      });
+    }
+    if (!hbc.buffer) {
+      throw new PayloadTooLargeError(
+        `Hermes bytecode exceeds the maximum size of ${this.config.maxBundleSize} bytes`,
+        { code: "BUNDLE_TOO_LARGE" },
+      );
+    }
+    if (!hbcSourceMap.buffer) {
+      throw new PayloadTooLargeError(
+        `Hermes bytecode source map exceeds the maximum size of ${this.config.maxSourceMapSize} bytes`,
+        { code: "SOURCEMAP_TOO_LARGE" },
+      );
+    }
+    if (this.getBundleFormat(bundle.buffer!) !== "js") {
+      throw new ValidationError(
+        "Hermes bytecode can only be uploaded along with a JS bundle",
+        { code: "INVALID_HBC" },
+      );
+    }
+    if (this.getBundleFormat(hbc.buffer) !== "hbc") {
+      throw new ValidationError("hbc file is not a Hermes bytecode file", {
+        code: "INVALID_HBC",
+      });
+    }
+    parseSourceMap(hbcSourceMap.buffer);
+  }
+
+  public parseBundleFilter(query: any): BundleFilter {
+    const filter: BundleFilter = _.pickBy(
+      _.pick(query, ["author", "branch", "commit", "version"]),
+      _.isString,
+    );
+    const tags = _.castArray(query.tag || []);
+    if (tags.length > 0) {
+      filter.tags = {};
+      for (const tag of tags) {
+        const idx = _.isString(tag) ? tag.indexOf(":") : -1;
+        if (idx === -1) {
+          throw new ValidationError(
+            `tag filter ${JSON.stringify(tag)} should use key:value format`,
+            {
+              code: "INVALID_FILTER",
+            },
+          );
+        }
+        filter.tags[tag.slice(0, idx)] = tag.slice(idx + 1);
+      }
+    }
+    return filter;
+  }
+
+  public async getSourceMap({
     bundleId,
     platform,
     storeId,
@@ -85,228 +527,1574 @@ export class BundleStoreServer {
     bundleId?: string;
     platform: Platform;
     storeId?: string;
-  }) {
-    const bundle =
-      bundleId === "latest"
-        ? this.db.getLatestBundle({ platform: platform as Platform, storeId })
-        : this.db.getBundle({ bundleId, storeId });
+  }): Promise<string> {
+    const bundle = this.db.resolveBundle({
+      bundleRef: bundleId,
+      platform,
+      storeId,
+    });
+
+    const sourceMap = await this.blobStore.get(
+      this.getBundleBlobKeys(bundle).sourceMap,
+    );
+    return sourceMap.toString();
+  }
 
-    const sourceMapPath = this.getPathToSourceMap(bundle.sourceMap);
-    return fs.readFileSync(sourceMapPath).toString();
+  /**
+   * Loads and parses the source map of a bundle, or of its Hermes bytecode
+   * if `hermes` is set, returning its consumer along with the size of the
+   * source map.
+   */
+  public async loadSourceMap(
+    bundle: Bundle,
+    { hermes = false }: { hermes?: boolean } = {},
+  ): Promise<{ consumer: SourceMapConsumer; size: number }> {
+    const keys = this.getBundleBlobKeys(bundle);
+    const sourceMap = await this.blobStore.get(
+      hermes ? keys.hermesSourceMap! : keys.sourceMap,
+    );
+    const consumer = await new SourceMapConsumer(
+      JSON.parse(sourceMap.toString()),
+    );
+    return { consumer, size: sourceMap.length };
   }
 
+  /**
+   * Symbolicates the frames of a stack, using the source map of the bundle
+   * returned by `getBundle` for each frame, or the source map of its Hermes
+   * bytecode for the frames of the bytecode. Frames that do not belong to a
+   * bundle are left untouched. Source maps are loaded through the source
+   * map cache, and at most once per request.
+   * Frames matching the collapse patterns are marked as collapsed, and the
+   * code frame of the first other frame is built from the source content
+   * embedded in its source map.
+   */
   public async symbolicate(
     stack: StackFrame[],
-    sourceMap: string,
-  ): Promise<StackFrame[]> {
-    const consumer = await new SourceMapConsumer(JSON.parse(sourceMap));
+    getBundle: (frame: StackFrame) => Bundle | undefined,
+  ): Promise<SymbolicatedStack> {
+    const collapsePatterns = this.config.collapseFramePatterns.map(
+      (pattern) => new RegExp(pattern),
+    );
+    const isCollapsed = (file?: string) =>
+      !!file && collapsePatterns.some((re) => re.test(file));
+    const handles: Map<string, SourceMapConsumerHandle> = new Map();
     try {
-      return stack.map((frame: StackFrame) => {
+      const symbolicated: StackFrame[] = [];
+      let codeFrame: CodeFrame | null = null;
+      for (const rawFrame of stack) {
+        const frame = stripHermesAddress(rawFrame);
+        const bundle =
+          frame.column && frame.lineNumber ? getBundle(frame) : undefined;
+        if (!bundle) {
+          symbolicated.push({ ...frame, collapse: isCollapsed(frame.file) });
+          continue;
+        }
+        const hermes = !!bundle.hermes && isHermesBytecodeFrame(rawFrame);
+        const cacheKey = this.getSourceMapCacheKey(bundle, hermes);
+        if (!handles.has(cacheKey)) {
+          handles.set(
+            cacheKey,
+            await this.sourceMapCache.acquire(cacheKey, () =>
+              this.loadSourceMap(bundle, { hermes }),
+            ),
+          );
+        }
+        const { consumer } = handles.get(cacheKey)!;
+        const originalPos = consumer.originalPositionFor({
+          column: frame.column!,
+          line: frame.lineNumber!,
+        });
+        const symbolicatedFrame: StackFrame = {
+          arguments: frame.arguments,
+          collapse: isCollapsed(originalPos.source),
+          column: originalPos.column,
+          file: originalPos.source,
+          lineNumber: originalPos.line,
+          methodName: originalPos.name || frame.methodName,
+        };
         if (
-          frame.file &&
-          frame.file.startsWith("http") &&
-          frame.column &&
-          frame.lineNumber
+          !codeFrame &&
+          !symbolicatedFrame.collapse &&
+          originalPos.source &&
+          originalPos.line
         ) {
-          const originalPos = consumer.originalPositionFor({
-            column: frame.column,
-            line: frame.lineNumber,
-          });
-          return {
-            arguments: frame.arguments,
-            column: originalPos.column,
-            file: originalPos.source,
-            lineNumber: originalPos.line,
-            methodName: frame.methodName,
-          };
-        } else {
-          return frame;
+          const content = consumer.sourceContentFor(originalPos.source, true);
+          if (content) {
+            codeFrame = {
+              content: createCodeFrame(content, {
+                column: originalPos.column || 0,
+                line: originalPos.line,
+              }),
+              fileName: originalPos.source,
+              location: {
+                column: originalPos.column || 0,
+                row: originalPos.line,
+              },
+            };
+          }
         }
-      });
+        symbolicated.push(symbolicatedFrame);
+      }
+      return { codeFrame, stack: symbolicated };
     } finally {
-      consumer.destroy();
+      handles.forEach((handle) => handle.release());
     }
   }
 
-  public addBundleToStore(store: Store, bundle: Bundle): Bundle {
-    if (
-      this.config.maxBundles !== -1 &&
-      store.bundles.length >= this.config.maxBundles
-    ) {
-      const oldestBundle = store.bundles[0];
-      shell.rm(
-        this.getPathToBundle(oldestBundle.id),
-        this.getPathToSourceMap(oldestBundle.sourceMap),
-      );
-      this.db.delBundle({
-        bundleId: oldestBundle.id,
-        storeId: store.id,
+  /**
+   * Symbolicates the stack trace of a crash log with the source map of a
+   * bundle, and renders the symbolicated stack trace back as text.
+   */
+  public async symbolicateCrashLog(
+    text: string,
+    bundle: Bundle,
+  ): Promise<SymbolicatedCrashLog> {
+    const { message, stack } = parseStackTrace(text);
+    if (stack.length === 0) {
+      throw new ValidationError("No stack frame found in crash log", {
+        code: "INVALID_CRASH_LOG",
       });
     }
+    const symbolicated = await this.symbolicate(stack, () => bundle);
+    return {
+      ...symbolicated,
+      message,
+      text: formatStackTrace({ message, stack: symbolicated.stack }),
+    };
+  }
+
+  public async addBundleToStore(store: Store, bundle: Bundle): Promise<Bundle> {
     this.db.addBundle({
       bundle,
       storeId: store.id,
     });
+    if (this.config.maxBundles !== -1) {
+      // The given store may not be the very object held by the database
+      const current = this.db.getStore(store.id);
+      const protectedIds = this.getProtectedBundleIds(current);
+      // The added bundle is never evicted, so the store exceeds maxBundles
+      // when all of its other bundles are pinned or labeled
+      protectedIds.add(bundle.id);
+      await this.evictBundles(
+        _.take(
+          current.bundles.filter((b) => !protectedIds.has(b.id)),
+          current.bundles.length - this.config.maxBundles,
+        ).map((b) => ({
+          bundleId: b.id,
+          platform: b.platform,
+          reason: "maxBundles" as EvictionReason,
+          storeId: store.id,
+        })),
+      );
+    }
+    await this.applyRetentionPolicy(store.id);
     return bundle;
   }
 
+  /**
+   * Gets the ids of the bundles of a store that are never evicted: the
+   * pinned bundles and the labeled bundles.
+   */
+  public getProtectedBundleIds(store: Store): Set<string> {
+    const ids = new Set<string>(_.map(store.labels, (l) => l.bundleId));
+    for (const bundle of store.bundles) {
+      if (bundle.pinned) {
+        ids.add(bundle.id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Selects the bundles of a store to evict according to a retention
+   * policy, oldest first.
+   */
+  public selectBundlesToEvict(
+    store: Store,
+    policy: RetentionPolicy = store.retention || {},
+    now: number = Date.now(),
+  ): Eviction[] {
+    const { keepDays, keepLast, maxTotalBytes } = policy;
+    const protectedIds = this.getProtectedBundleIds(store);
+    // Retention policies never evict the latest bundle of a platform
+    for (const bundles of _.values(
+      _.groupBy(store.bundles, (b) => b.platform),
+    )) {
+      protectedIds.add(_.last(bundles)!.id);
+    }
+    const reasons = new Map<string, EvictionReason>();
+    if (keepDays !== undefined || keepLast !== undefined) {
+      for (const bundles of _.values(
+        _.groupBy(store.bundles, (b) => b.platform),
+      )) {
+        bundles.forEach((bundle, i) => {
+          const keptByCount =
+            keepLast !== undefined && bundles.length - i <= keepLast;
+          const keptByAge =
+            keepDays !== undefined &&
+            now - bundle.timestamp < keepDays * 24 * 60 * 60 * 1000;
+          if (!keptByCount && !keptByAge && !protectedIds.has(bundle.id)) {
+            reasons.set(bundle.id, keepDays !== undefined ? "age" : "count");
+          }
+        });
+      }
+    }
+    if (maxTotalBytes !== undefined) {
+      const kept = store.bundles.filter((b) => !reasons.has(b.id));
+      let totalBytes = _.sumBy(kept, (b) => b.size || 0);
+      for (const bundle of kept) {
+        if (totalBytes <= maxTotalBytes) {
+          break;
+        }
+        // Evicting bundles of unknown size would not free anything known
+        if (bundle.size && !protectedIds.has(bundle.id)) {
+          reasons.set(bundle.id, "size");
+          totalBytes -= bundle.size;
+        }
+      }
+    }
+    return store.bundles
+      .filter((b) => reasons.has(b.id))
+      .map((b) => ({
+        bundleId: b.id,
+        platform: b.platform,
+        reason: reasons.get(b.id)!,
+        storeId: store.id,
+      }));
+  }
+
+  /**
+   * Evicts the bundles of a store according to its retention policy, if
+   * it has one. In dry run mode, only reports the bundles that would be
+   * evicted.
+   */
+  public async applyRetentionPolicy(
+    storeId: string,
+    { dryRun = false }: { dryRun?: boolean } = {},
+  ): Promise<Eviction[]> {
+    const store = this.db.getStore(storeId);
+    const evictions = store.retention ? this.selectBundlesToEvict(store) : [];
+    if (!dryRun) {
+      await this.evictBundles(evictions);
+    }
+    return evictions;
+  }
+
+  /**
+   * Applies the retention policy of all the stores.
+   */
+  public async sweepStores({
+    dryRun = false,
+  }: { dryRun?: boolean } = {}): Promise<Eviction[]> {
+    const evictions: Eviction[] = [];
+    for (const storeId of Object.keys(this.db.getStores())) {
+      evictions.push(...(await this.applyRetentionPolicy(storeId, { dryRun })));
+    }
+    return evictions;
+  }
+
+  public parseRetentionPolicy(retention: any): RetentionPolicy | null {
+    if (retention === null) {
+      return null;
+    }
+    if (!_.isPlainObject(retention)) {
+      throw new ValidationError("retention policy should be a JSON object", {
+        code: "INVALID_RETENTION_POLICY",
+      });
+    }
+    const fields = ["keepDays", "keepLast", "maxTotalBytes"];
+    for (const key of Object.keys(retention)) {
+      if (!fields.includes(key)) {
+        throw new ValidationError(`unknown retention policy field ${key}`, {
+          code: "INVALID_RETENTION_POLICY",
+        });
+      }
+      if (!_.isNumber(retention[key]) || retention[key] < 0) {
+        throw new ValidationError(
+          `retention policy field ${key} should be a positive number`,
+          { code: "INVALID_RETENTION_POLICY" },
+        );
+      }
+    }
+    return retention;
+  }
+
+  /**
+   * Extracts an assets zip file to a temporary directory, and only stores
+   * the assets in the blob store once the whole archive has been extracted
+   * and the hash of each asset verified, so that an invalid archive does
+   * not leave any partial write behind. Assets that are already stored are
+   * immutable, and are not written again if the archive contains the same
+   * files. All the extracted assets, including the ones already stored,
+   * are marked as pending until the upload completes, so that they are not
+   * deleted as unused in the meantime. Returns the hashes of the extracted
+   * assets.
+   */
   public async unzipAssets(
     zipFilePath: string,
-    targetDir: string,
+    markPending: (keys: string[]) => void = _.noop,
   ): Promise<string[]> {
-    const newAssets: Set<string> = new Set<string>();
+    const targetDir = tmp.dirSync().name;
     try {
-      await new Promise((resolve, reject) =>
-        yauzl.open(zipFilePath, { lazyEntries: true }, (err, zipfile) => {
-          if (err) {
-            reject(err);
-          }
-          zipfile.readEntry();
-          zipfile.on("entry", (entry) => {
-            if (/\/$/.test(entry.fileName)) {
-              // Directory. Skip.
-              zipfile.readEntry();
-            } else {
-              newAssets.add(path.dirname(entry.fileName));
-              const filePath = path.join(targetDir, entry.fileName);
-              shell.mkdir("-p", path.dirname(filePath));
-              zipfile.openReadStream(entry, (e, readStream) => {
-                if (e) {
-                  reject(e);
-                }
-                const writeStream = fs.createWriteStream(filePath);
-                readStream.pipe(writeStream);
-                readStream.on("end", () => zipfile.readEntry());
-              });
-            }
-          });
-          zipfile.on("error", (error) => reject(error));
-          zipfile.on("close", () => resolve());
-        }),
+      const files = await this.extractAssetsZip(zipFilePath, targetDir);
+      const assets = _.groupBy(_.uniq(files), (file) => path.dirname(file));
+      markPending(
+        Object.keys(assets).map((hash) => this.getAssetBlobKeyPrefix(hash)),
+      );
+      const newAssets: string[] = [];
+      for (const hash of Object.keys(assets)) {
+        if (await this.verifyAsset(hash, targetDir, assets[hash])) {
+          newAssets.push(hash);
+        }
+      }
+      markPending(
+        _.flatMap(newAssets, (hash) => assets[hash]).map(
+          (file) => `assets/${file}`,
+        ),
       );
+      for (const hash of newAssets) {
+        for (const file of assets[hash]) {
+          await this.blobStore.put(
+            `assets/${file}`,
+            await fs.promises.readFile(path.join(targetDir, file)),
+          );
+        }
+      }
+      return Object.keys(assets);
     } finally {
-      shell.rm(zipFilePath);
+      shell.rm("-rf", zipFilePath, targetDir);
     }
-    return Array.from(newAssets);
   }
 
-  public getPathToBundle(bundleId: string) {
-    return path.join(this.config.paths.bundles, bundleId);
+  /**
+   * Computes the hash of an asset the same way Metro does: the md5 of the
+   * content of its files, in ascending order of scale.
+   */
+  public getAssetHash(files: Array<{ data: Buffer; name: string }>): string {
+    const getScale = (name: string) => {
+      const match = /@(\d+(?:\.\d+)?)x(?:\.[^.]*)?$/.exec(name);
+      return match ? parseFloat(match[1]) : 1;
+    };
+    const hash = crypto.createHash("md5");
+    for (const file of _.sortBy(files, (f) => getScale(f.name))) {
+      hash.update(file.data);
+    }
+    return hash.digest("hex");
   }
 
-  public getPathToSourceMap(sourceMap: string) {
-    return path.join(this.config.paths.sourcemaps, sourceMap);
+  public getBundleBlobKey(hash: string) {
+    return `bundles/${hash}`;
   }
 
-  public start() {
-    this.app.listen(this.config.port, this.config.host, () =>
-      this.d(
-        `Electrode Native bundle store server listening on port ${this.config.port}`,
-      ),
-    );
+  public getSourceMapBlobKey(sourceMap: string) {
+    return `sourcemaps/${sourceMap}`;
   }
 
-  private createDirectories() {
-    shell.mkdir(
-      "-p",
-      this.config.paths.assets,
-      this.config.paths.bundles,
-      path.dirname(this.config.paths.db),
-      this.config.paths.sourcemaps,
-    );
+  public getAssetBlobKey(hash: string, fileName: string) {
+    return `${this.getAssetBlobKeyPrefix(hash)}${fileName}`;
   }
 
-  private setupMiddlewares() {
-    this.app.use(express.json());
-    this.app.use((req, res, next) => {
-      if (req.is("text/*")) {
-        req.text = "";
-        req.setEncoding("utf8");
-        req.on("data", (chunk) => (req.text += chunk));
-        req.on("end", next);
-      } else {
-        next();
+  public getAssetBlobKeyPrefix(hash: string) {
+    return `assets/${hash}/`;
+  }
+
+  public getBundleVariantBlobKey(hash: string, encoding: ContentEncoding) {
+    const { extension } = _.find(
+      bundleVariants,
+      (v) => v.encoding === encoding,
+    )!;
+    return `${this.getBundleBlobKey(hash)}${extension}`;
+  }
+
+  /**
+   * Gets the keys of all the blobs of a bundle: the bundle itself, its
+   * precompressed variants and its source map, along with its Hermes
+   * bytecode and the source map of the bytecode.
+   */
+  public getBundleBlobKeys(
+    bundle: Bundle,
+  ): {
+    br?: string;
+    bundle: string;
+    gzip?: string;
+    hermes?: string;
+    hermesSourceMap?: string;
+    sourceMap: string;
+  } {
+    const keys: { [name: string]: string } = {
+      bundle: this.getBundleBlobKey(bundle.hash || bundle.id),
+      sourceMap: this.getSourceMapBlobKey(bundle.sourceMap),
+    };
+    for (const encoding of bundle.encodings || []) {
+      keys[encoding] = this.getBundleVariantBlobKey(bundle.hash!, encoding);
+    }
+    if (bundle.hermes) {
+      keys.hermes = this.getBundleBlobKey(bundle.hermes.hash);
+      keys.hermesSourceMap = this.getSourceMapBlobKey(bundle.hermes.sourceMap);
+    }
+    return keys as { bundle: string; sourceMap: string };
+  }
+
+  /**
+   * Gets the key of the source map of a bundle, or of its Hermes bytecode,
+   * in the source map cache.
+   */
+  public getSourceMapCacheKey(bundle: Bundle, hermes: boolean = false) {
+    return hermes ? `${bundle.id}/hermes` : bundle.id;
+  }
+
+  /**
+   * Counts the bundles of all the stores referencing a bundle or source
+   * map blob, along with the uploads in progress writing it. Reference
+   * counts are derived from the database rather than stored alongside it,
+   * so that they cannot drift from it.
+   */
+  public countBlobReferences(key: string): number {
+    let count = this.pendingBlobKeys.get(key) || 0;
+    for (const store of Object.values(this.db.getStores())) {
+      for (const bundle of store.bundles) {
+        count += _.filter(this.getBundleBlobKeys(bundle), (k) => k === key)
+          .length;
       }
-    });
+    }
+    return count;
   }
 
-  private createMulterStorage() {
-    return multer.diskStorage({
-      destination: (req, file, cb) => {
-        if (file.fieldname === "bundle") {
-          cb(null, this.config.paths.bundles);
-        } else if (file.fieldname === "sourcemap") {
-          cb(null, this.config.paths.sourcemaps);
-        } else if (file.fieldname === "assets") {
-          cb(null, this.config.paths.assets);
+  /**
+   * Runs an upload, marking the blobs it writes as pending until it
+   * completes. Blobs are written before the bundle or asset records
+   * referencing them are added to the database, and pending blobs are not
+   * deleted as unreferenced in the meantime by a concurrent bundle
+   * deletion, eviction or purge.
+   */
+  public async withPendingBlobs<T>(
+    upload: (markPending: (keys: string[]) => void) => Promise<T>,
+  ): Promise<T> {
+    const marked: string[] = [];
+    try {
+      return await upload((keys) => {
+        for (const key of keys) {
+          marked.push(key);
+          this.pendingBlobKeys.set(
+            key,
+            (this.pendingBlobKeys.get(key) || 0) + 1,
+          );
         }
-      },
-      filename: (req, file, cb) => {
-        if (file.fieldname === "bundle") {
-          cb(null, req.params.bundleId);
-        } else if (file.fieldname === "sourcemap") {
-          cb(null, req.params.sourceMapId);
-        } else if (file.fieldname === "assets") {
-          cb(null, `${uuidv4()}.zip`);
+      });
+    } finally {
+      for (const key of marked) {
+        const count = this.pendingBlobKeys.get(key)! - 1;
+        if (count === 0) {
+          this.pendingBlobKeys.delete(key);
+        } else {
+          this.pendingBlobKeys.set(key, count);
         }
-      },
-    });
+      }
+    }
   }
 
-  private addFileIdsToReqParams(req, res, next) {
-    req.params.bundleId = uuidv4();
-    req.params.sourceMapId = uuidv4();
-    next();
+  /**
+   * Deletes the blobs of a bundle that are not referenced by any other
+   * bundle. Should be called once the bundle is removed from the database.
+   */
+  public async delBundleBlobs(bundle: Bundle) {
+    this.sourceMapCache.delete(this.getSourceMapCacheKey(bundle));
+    this.sourceMapCache.delete(this.getSourceMapCacheKey(bundle, true));
+    for (const key of Object.values(this.getBundleBlobKeys(bundle))) {
+      await this.delUnreferencedBlob(key);
+    }
   }
 
-  private validateStoreAccessKey(req, res, next) {
-    const accessKey = req.header("ERN-BUNDLE-STORE-ACCESS-KEY");
-    if (!accessKey) {
-      return res
-        .status(400)
-        .send("Missing ERN-BUNDLE-STORE-ACCESS-KEY in request headers.");
+  public async delUnreferencedBlob(key: string) {
+    if (this.countBlobReferences(key) === 0) {
+      await this.blobStore.del(key);
     }
-    if (req.store.accessKey !== accessKey) {
-      return res.status(403).send("Invalid store access key");
-    } else {
-      next();
+  }
+
+  /**
+   * Deletes a bundle of a store along with its blobs and the assets that
+   * no other bundle uses. Labeled bundles are never deleted, and pinned
+   * bundles only if `force` is set.
+   */
+  public async delBundle({
+    bundleId,
+    force = false,
+    storeId,
+  }: {
+    bundleId: string;
+    force?: boolean;
+    storeId: string;
+  }): Promise<Bundle> {
+    const labels = _.filter(
+      this.db.getLabels({ storeId }),
+      (l) => l.bundleId === bundleId,
+    ).map((l) => l.name);
+    if (labels.length > 0) {
+      throw new ConflictError(
+        `Bundle ${bundleId} is labeled as ${labels.join(
+          ", ",
+        )} and cannot be deleted`,
+        { code: "BUNDLE_LABELED", details: { bundleId, labels, storeId } },
+      );
     }
+    const assets = await this.getBundleAssets(
+      this.db.getBundle({ bundleId, storeId }),
+    );
+    const bundle = this.db.delBundle({ bundleId, force, storeId });
+    await this.delBundleBlobs(bundle);
+    await this.delUnusedAssets(assets);
+    return bundle;
   }
 
-  private addBundleToReq(req, res, next) {
-    const {
-      bundleId,
-      platform,
-    }: { bundleId: string; platform: Platform } = req.params;
-    const storeId = req.store.id;
-    try {
-      req.bundle =
-        bundleId === "latest"
-          ? this.db.getLatestBundle({ platform, storeId })
-          : this.db.getBundle({ bundleId, storeId });
-    } catch (err) {
-      return res
-        .status(404)
-        .send(`Bundle ${bundleId} not found in store ${req.store.id}`);
+  /**
+   * Deletes the given assets if they are not used by any bundle, nor by a
+   * bundle being uploaded. Returns the hashes of the deleted assets.
+   */
+  public async delUnusedAssets(assets: string[]): Promise<string[]> {
+    const used = await this.getUsedAssets();
+    const unused = assets.filter(
+      (hash) =>
+        !used.has(hash) &&
+        !this.pendingBlobKeys.has(this.getAssetBlobKeyPrefix(hash)) &&
+        _.has(this.db.getAssets(), hash),
+    );
+    if (unused.length > 0) {
+      this.db.delAssets(unused);
+      for (const hash of unused) {
+        for (const key of await this.blobStore.list(
+          this.getAssetBlobKeyPrefix(hash),
+        )) {
+          await this.blobStore.del(key);
+        }
+      }
     }
-    next();
+    return unused;
   }
 
-  private addStoreToReq(req, res, next) {
-    const { storeId } = req.params;
-    if (!this.db.hasStore(storeId)) {
-      return res.status(404).send(`Store ${storeId} does not exist`);
+  public async delStore(storeId: string): Promise<Store> {
+    const store = this.db.delStore(storeId);
+    for (const bundle of store.bundles) {
+      await this.delBundleBlobs(bundle);
     }
-    req.store = this.db.getStore(storeId);
-    next();
+    return store;
   }
 
-  private noop() {
-    // noop
+  public getStoreStats(store: Store): StoreStats {
+    const latestBundle = _.maxBy(store.bundles, (b) => b.timestamp);
+    return {
+      accessKeys: (store.accessKeys || []).length,
+      bundles: store.bundles.length,
+      id: store.id,
+      labels: (store.labels || []).length,
+      latestBundleTimestamp: latestBundle && latestBundle.timestamp,
+      platforms: _.countBy(store.bundles, (b) => b.platform),
+      private: !!store.private,
+    };
   }
 
-  private createAppRoutes() {
-    const upload = multer({ storage: this.storage });
+  /**
+   * Lists the blobs that are not referenced by any bundle or asset of
+   * the database, for example left over by an interrupted upload. The
+   * blobs of the uploads in progress are not listed.
+   */
+  public async getOrphanedBlobs(): Promise<string[]> {
+    const referenced = new Set<string>();
+    for (const store of Object.values(this.db.getStores())) {
+      for (const bundle of store.bundles) {
+        for (const key of Object.values(this.getBundleBlobKeys(bundle))) {
+          referenced.add(key);
+        }
+      }
+    }
+    const assets = this.db.getAssets();
+    const orphaned: string[] = [];
+    for (const kind of ["bundles", "sourcemaps", "assets"]) {
+      for (const key of await this.blobStore.list(`${kind}/`)) {
+        const isReferenced =
+          kind === "assets"
+            ? _.has(assets, key.split("/")[1])
+            : referenced.has(key);
+        if (!isReferenced && !this.pendingBlobKeys.has(key)) {
+          orphaned.push(key);
+        }
+      }
+    }
+    return orphaned;
+  }
+
+  public async purgeOrphanedBlobs({
+    dryRun = false,
+  }: { dryRun?: boolean } = {}): Promise<string[]> {
+    const orphaned = await this.getOrphanedBlobs();
+    if (!dryRun) {
+      for (const key of orphaned) {
+        await this.blobStore.del(key);
+      }
+    }
+    return orphaned;
+  }
+
+  /**
+   * Gets the hashes of the assets used by the bundles of all the stores.
+   * The assets of bundles uploaded before asset manifests were introduced
+   * are extracted from the bundle content.
+   */
+  public async getUsedAssets(): Promise<Set<string>> {
+    const used = new Set<string>();
+    for (const store of Object.values(this.db.getStores())) {
+      for (const bundle of store.bundles) {
+        for (const asset of await this.getBundleAssets(bundle)) {
+          used.add(asset);
+        }
+      }
+    }
+    return used;
+  }
+
+  /**
+   * Gets the hashes of the assets used by a bundle, extracted from the
+   * bundle content if the bundle has no assets manifest.
+   */
+  public async getBundleAssets(bundle: Bundle): Promise<string[]> {
+    if (bundle.assets) {
+      return bundle.assets;
+    }
+    const key = this.getBundleBlobKeys(bundle).bundle;
+    return (await this.blobStore.has(key))
+      ? this.extractAssetHashes(await this.blobStore.get(key))
+      : [];
+  }
+
+  /**
+   * Mark and sweep garbage collection of the assets that are not used by
+   * any bundle. Assets uploaded less than `minAge` milliseconds ago are
+   * kept, as the bundle using them may not be uploaded yet, along with
+   * the assets of the uploads in progress. Returns the collected assets hashes along with the reclaimed bytes.
+   */
+  public async collectAssetGarbage({
+    dryRun = false,
+    minAge = ASSET_GC_MIN_AGE,
+    now = Date.now(),
+  }: { dryRun?: boolean; minAge?: number; now?: number } = {}): Promise<{
+    bytes: number;
+    collected: string[];
+  }> {
+    const used = await this.getUsedAssets();
+    const assets = this.db.getAssets();
+    const collected = Object.keys(assets).filter(
+      (hash) =>
+        !used.has(hash) &&
+        !this.pendingBlobKeys.has(this.getAssetBlobKeyPrefix(hash)) &&
+        (assets[hash].createdAt || 0) <= now - minAge,
+    );
+    let bytes = 0;
+    const keys: string[] = [];
+    for (const hash of collected) {
+      for (const key of await this.blobStore.list(`assets/${hash}/`)) {
+        bytes += await this.blobStore.size(key);
+        keys.push(key);
+      }
+    }
+    if (!dryRun && collected.length > 0) {
+      this.db.delAssets(collected);
+      for (const key of keys) {
+        await this.blobStore.del(key);
+      }
+    }
+    return { bytes, collected };
+  }
+
+  public start() {
+    this.app.listen(this.config.port, this.config.host, () =>
+      this.d(
+        `Electrode Native bundle store server listening on port ${this.config.port}`,
+      ),
+    );
+    if (this.config.retentionSweepInterval !== -1) {
+      setInterval(
+        () =>
+          this.sweepStores().catch((err) =>
+            this.d(`retention sweep failed: ${err.stack}`),
+          ),
+        this.config.retentionSweepInterval,
+      ).unref();
+    }
+    if (this.config.assetGcInterval !== -1) {
+      setInterval(
+        () =>
+          this.collectAssetGarbage()
+            .then(({ bytes, collected }) =>
+              this.d(`collected ${collected.length} assets (${bytes} bytes)`),
+            )
+            .catch((err) =>
+              this.d(`asset garbage collection failed: ${err.stack}`),
+            ),
+        this.config.assetGcInterval,
+      ).unref();
+    }
+  }
+
+  private createDirectories() {
+    shell.mkdir("-p", path.dirname(this.config.paths.db));
+  }
+
+  /**
+   * Loads the secret signing the signed urls and access tokens, kept in a
+   * `secret` file next to the database, generating it on first start.
+   */
+  private loadSigningSecret(): string {
+    const secretPath = path.join(path.dirname(this.config.paths.db), "secret");
+    if (!fs.existsSync(secretPath)) {
+      writeFileAtomicSync(secretPath, crypto.randomBytes(32).toString("hex"));
+      fs.chmodSync(secretPath, 0o600);
+      this.d(`generated signing secret in ${secretPath}`);
+    }
+    return fs.readFileSync(secretPath).toString();
+  }
+
+  private setupMiddlewares() {
+    this.app.use(express.json());
+    this.app.use((req, res, next) => {
+      if (req.is("text/*")) {
+        req.text = "";
+        req.setEncoding("utf8");
+        req.on("data", (chunk) => (req.text += chunk));
+        req.on("end", next);
+      } else {
+        next();
+      }
+    });
+  }
+
+  /**
+   * Multer storage engine keeping the uploaded bundles and source maps in
+   * memory, so that they can be validated before being stored in the blob
+   * store. Uploaded assets zip files are only transient, and are streamed
+   * to a temporary file until they are extracted.
+   */
+  private createMulterStorage() {
+    const sizeLimit = (fieldname: string) =>
+      fieldname === "bundle" || fieldname === "hbc"
+        ? this.config.maxBundleSize
+        : fieldname === "sourcemap" || fieldname === "hbcsourcemap"
+        ? this.config.maxSourceMapSize
+        : -1;
+    return {
+      _handleFile: (req, file, cb) => {
+        if (file.fieldname === "assets") {
+          return this.storeAssetsZip(file.stream, cb);
+        }
+        const limit = sizeLimit(file.fieldname);
+        const chunks: Buffer[] = [];
+        let size = 0;
+        file.stream.on("data", (chunk) => {
+          size += chunk.length;
+          // Files exceeding the size limit are drained but not kept in memory
+          if (limit === -1 || size <= limit) {
+            chunks.push(chunk);
+          }
+        });
+        file.stream.on("error", cb);
+        file.stream.on("end", () =>
+          cb(null, {
+            buffer:
+              limit === -1 || size <= limit ? Buffer.concat(chunks) : undefined,
+            size,
+          }),
+        );
+      },
+      _removeFile: (req, file, cb) => {
+        if (file.path) {
+          shell.rm("-f", file.path);
+        }
+        cb(null);
+      },
+    };
+  }
+
+  /**
+   * Streams an uploaded assets zip file to a temporary file. The zip file
+   * cannot exceed the maximum size of the assets, as it is never smaller
+   * than their compressed content. Multer drains the rest of the request
+   * once the upload fails.
+   */
+  private storeAssetsZip(
+    stream: NodeJS.ReadableStream,
+    cb: (err: Error | null, file?: { path: string; size: number }) => void,
+  ) {
+    const { maxAssetsSize } = this.config;
+    const zipPath = tmp.tmpNameSync({ postfix: ".zip" });
+    const out = fs.createWriteStream(zipPath);
+    let size = 0;
+    let failed = false;
+    const fail = (err: Error) => {
+      if (!failed) {
+        failed = true;
+        stream.unpipe(out);
+        out.destroy();
+        shell.rm("-f", zipPath);
+        cb(err);
+      }
+    };
+    stream.on("data", (chunk) => {
+      size += chunk.length;
+      if (maxAssetsSize !== -1 && size > maxAssetsSize) {
+        fail(
+          new PayloadTooLargeError(
+            `assets archive exceeds the maximum size of ${maxAssetsSize} bytes`,
+            { code: "ASSETS_TOO_LARGE" },
+          ),
+        );
+      }
+    });
+    stream.on("error", fail);
+    out.on("error", fail);
+    out.on("finish", () => {
+      if (!failed) {
+        cb(null, { path: zipPath, size });
+      }
+    });
+    stream.pipe(out);
+  }
+
+  /**
+   * Deletes evicted bundles along with their blobs, skipping the bundles
+   * deleted or pinned since their eviction was decided.
+   */
+  private async evictBundles(evictions: Eviction[]) {
+    for (const { bundleId, reason, storeId } of evictions) {
+      // The bundle may have been evicted or pinned concurrently
+      if (
+        !this.db.hasBundle({ bundleId, storeId }) ||
+        this.db.getBundle({ bundleId, storeId }).pinned
+      ) {
+        continue;
+      }
+      const bundle = this.db.delBundle({ bundleId, storeId });
+      await this.delBundleBlobs(bundle);
+      this.d(`evicted bundle ${bundleId} from store ${storeId} (${reason})`);
+    }
+  }
+
+  /**
+   * Verifies that the files extracted for an asset match its hash, and do
+   * not conflict with the files of the asset if it is already stored.
+   * Returns whether the asset is new.
+   */
+  private async verifyAsset(
+    hash: string,
+    dir: string,
+    files: string[],
+  ): Promise<boolean> {
+    const contents: Array<{ data: Buffer; name: string }> = [];
+    for (const file of files) {
+      contents.push({
+        data: await fs.promises.readFile(path.join(dir, file)),
+        name: path.basename(file),
+      });
+    }
+    const actual = this.getAssetHash(contents);
+    if (actual !== hash) {
+      throw new ValidationError(
+        `asset ${hash} content does not match its hash (${actual})`,
+        { code: "ASSET_HASH_MISMATCH", details: { actual, hash } },
+      );
+    }
+    const existing = await this.blobStore.list(`assets/${hash}/`);
+    if (existing.length === 0) {
+      return true;
+    }
+    let identical = existing.length === contents.length;
+    for (const { data, name } of contents) {
+      const key = this.getAssetBlobKey(hash, name);
+      identical =
+        identical &&
+        existing.includes(key) &&
+        (await this.blobStore.get(key)).equals(data);
+    }
+    if (!identical) {
+      throw new ConflictError(
+        `asset ${hash} already exists with different files`,
+        { code: "ASSET_CONFLICT", details: { hash } },
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Extracts the files of an assets zip file to a directory, returning their
+   * paths relative to the directory. Each file should be stored in the
+   * directory of its asset (`<hash>/<file>`). Rejects archives containing
+   * any other path, symbolic links, or exceeding the configured limits.
+   */
+  private extractAssetsZip(
+    zipFilePath: string,
+    targetDir: string,
+  ): Promise<string[]> {
+    const { maxAssetsEntries, maxAssetsSize } = this.config;
+    const invalid = (message: string) =>
+      new ValidationError(`invalid assets archive: ${message}`, {
+        code: "INVALID_ASSETS_ARCHIVE",
+      });
+    const tooLarge = () =>
+      new PayloadTooLargeError(
+        `assets exceed the maximum size of ${maxAssetsSize} bytes`,
+        { code: "ASSETS_TOO_LARGE" },
+      );
+    const files: string[] = [];
+    let totalSize = 0;
+    return new Promise((resolve, reject) =>
+      yauzl.open(zipFilePath, { lazyEntries: true }, (err, zipfile) => {
+        if (err) {
+          return reject(invalid(err.message));
+        }
+        let failed = false;
+        const fail = (error: Error) => {
+          if (!failed) {
+            failed = true;
+            zipfile.close();
+            reject(error);
+          }
+        };
+        zipfile.on("error", (e) => fail(invalid(e.message)));
+        zipfile.on("end", () => resolve(files));
+        zipfile.on("entry", (entry) => {
+          if (/\/$/.test(entry.fileName)) {
+            // Directory. Skip.
+            return zipfile.readEntry();
+          }
+          const segments = entry.fileName.split("/");
+          const filePath = path.resolve(targetDir, ...segments);
+          if (
+            segments.length !== 2 ||
+            segments.some((s) => ["", ".", ".."].includes(s)) ||
+            !filePath.startsWith(`${targetDir}${path.sep}`)
+          ) {
+            return fail(invalid(`unexpected entry ${entry.fileName}`));
+          }
+          // The Unix mode of the entry is stored in the upper 16 bits of
+          // its attributes, and its file type above the permission bits
+          const mode = Math.floor(entry.externalFileAttributes / 0x10000);
+          if (mode - (mode % UNIX_PERMISSION_BITS) === UNIX_SYMBOLIC_LINK) {
+            return fail(invalid(`${entry.fileName} is a symbolic link`));
+          }
+          if (maxAssetsEntries !== -1 && files.length >= maxAssetsEntries) {
+            return fail(
+              new PayloadTooLargeError(
+                `assets archive contains more than ${maxAssetsEntries} files`,
+                { code: "TOO_MANY_ASSETS" },
+              ),
+            );
+          }
+          if (
+            maxAssetsSize !== -1 &&
+            totalSize + entry.uncompressedSize > maxAssetsSize
+          ) {
+            return fail(tooLarge());
+          }
+          zipfile.openReadStream(entry, (e, readStream) => {
+            if (e) {
+              return fail(invalid(e.message));
+            }
+            shell.mkdir("-p", path.dirname(filePath));
+            const writeStream = fs.createWriteStream(filePath);
+            readStream.on("data", (chunk) => {
+              // Sizes in the archive headers cannot be trusted
+              totalSize += chunk.length;
+              if (maxAssetsSize !== -1 && totalSize > maxAssetsSize) {
+                readStream.unpipe(writeStream);
+                readStream.destroy();
+                writeStream.destroy();
+                fail(tooLarge());
+              }
+            });
+            readStream.on("error", (readErr) => {
+              writeStream.destroy();
+              fail(invalid(readErr.message));
+            });
+            writeStream.on("error", fail);
+            writeStream.on("finish", () => {
+              if (!failed) {
+                files.push(entry.fileName);
+                zipfile.readEntry();
+              }
+            });
+            readStream.pipe(writeStream);
+          });
+        });
+        zipfile.readEntry();
+      }),
+    );
+  }
+
+  /**
+   * Stores the blobs of an uploaded bundle under the SHA-256 of their
+   * content, unless identical blobs are already stored.
+   */
+  private async putUploadedBundleBlobs(
+    bundle: Buffer,
+    sourceMap: Buffer,
+    hermes: { bytecode: Buffer; sourceMap: Buffer } | undefined,
+    markPending: (keys: string[]) => void,
+  ): Promise<UploadedBundleBlobs> {
+    const hash = sha256(bundle);
+    const sourceMapHash = sha256(sourceMap);
+    const blobs: Array<[string, () => Buffer | Promise<Buffer>]> = [
+      [this.getBundleBlobKey(hash), () => bundle],
+      [this.getSourceMapBlobKey(sourceMapHash), () => sourceMap],
+    ];
+    for (const { compress, encoding } of bundleVariants) {
+      blobs.push([
+        this.getBundleVariantBlobKey(hash, encoding),
+        () => compress(bundle),
+      ]);
+    }
+    const uploaded: UploadedBundleBlobs = {
+      encodings: bundleVariants.map((v) => v.encoding),
+      hash,
+      size: _.sumBy(
+        _.compact([
+          bundle,
+          sourceMap,
+          hermes && hermes.bytecode,
+          hermes && hermes.sourceMap,
+        ]),
+        (data) => data.length,
+      ),
+      sourceMap: sourceMapHash,
+    };
+    if (hermes) {
+      uploaded.hermes = {
+        hash: sha256(hermes.bytecode),
+        sourceMap: sha256(hermes.sourceMap),
+      };
+      blobs.push(
+        [this.getBundleBlobKey(uploaded.hermes.hash), () => hermes.bytecode],
+        [
+          this.getSourceMapBlobKey(uploaded.hermes.sourceMap),
+          () => hermes.sourceMap,
+        ],
+      );
+    }
+    markPending(blobs.map(([key]) => key));
+    for (const [key, data] of blobs) {
+      if (!(await this.blobStore.has(key))) {
+        await this.blobStore.put(key, await data());
+      }
+    }
+    return uploaded;
+  }
+
+  /**
+   * Selects the artifact of a bundle to send: the bundle as uploaded, or the
+   * Hermes bytecode uploaded along with a JS bundle. The artifact is either
+   * requested with the `format` query parameter, or negotiated using the
+   * request Accept header, defaulting to the bundle as uploaded.
+   */
+  private selectBundleArtifact(req, res, bundle: Bundle): BundleArtifact {
+    const keys = this.getBundleBlobKeys(bundle);
+    const artifacts: BundleArtifact[] = [
+      {
+        format: bundle.format || "js",
+        hash: bundle.hash,
+        key: keys.bundle,
+        sourceMap: keys.sourceMap,
+        // Content addressed bundles reference their source map by hash
+        sourceMapHash: bundle.hash && bundle.sourceMap,
+        variants: { br: keys.br, gzip: keys.gzip },
+      },
+    ];
+    if (bundle.hermes) {
+      artifacts.push({
+        format: "hbc",
+        hash: bundle.hermes.hash,
+        key: keys.hermes!,
+        sourceMap: keys.hermesSourceMap!,
+        sourceMapHash: bundle.hermes.sourceMap,
+        variants: {},
+      });
+      res.vary("Accept");
+    }
+    const { format } = req.query;
+    if (format === undefined) {
+      const type = req.accepts(
+        artifacts.map((a) => BUNDLE_CONTENT_TYPES[a.format]),
+      );
+      return (
+        _.find(artifacts, (a) => BUNDLE_CONTENT_TYPES[a.format] === type) ||
+        artifacts[0]
+      );
+    }
+    if (!_.isString(format) || !_.has(BUNDLE_CONTENT_TYPES, format)) {
+      throw new ValidationError(`unknown bundle format ${format}`, {
+        code: "INVALID_FORMAT",
+      });
+    }
+    const artifact = _.find(artifacts, (a) => a.format === format);
+    if (!artifact) {
+      throw new NotFoundError(`bundle ${bundle.id} has no ${format} artifact`, {
+        code: "BUNDLE_FORMAT_NOT_FOUND",
+        details: { format },
+      });
+    }
+    return artifact;
+  }
+
+  /**
+   * Sends a blob, along with its SHA-256 as ETag and Digest headers.
+   * If the hash of the blob is not known upfront, it is computed from the
+   * blob content. Replies with a 304 if the client already has the blob.
+   *
+   * If precompressed variants of the blob are given, the variant to send is
+   * negotiated using the request Accept-Encoding header. Single byte ranges
+   * requests are supported.
+   */
+  private async sendBlob(
+    req,
+    res,
+    {
+      hash,
+      headers = {},
+      key,
+      variants = {},
+    }: {
+      hash?: string;
+      headers?: { [name: string]: string };
+      key: string;
+      variants?: { [encoding: string]: string | undefined };
+    },
+  ) {
+    const encodings = _.filter(
+      bundleVariants,
+      (v) => !!variants[v.encoding],
+    ).map((v) => v.encoding);
+    let encoding: ContentEncoding | undefined;
+    if (encodings.length > 0) {
+      res.vary("Accept-Encoding");
+      encoding = this.negotiateEncoding(
+        req.header("Accept-Encoding"),
+        encodings,
+      );
+    }
+    const blobKey = encoding ? variants[encoding]! : key;
+    let data: Buffer | undefined;
+    try {
+      if (!hash) {
+        data = await this.blobStore.get(blobKey);
+        hash = sha256(data);
+      }
+      const etag = blobKey === key ? `"${hash}"` : `"${hash}-${encoding}"`;
+      res.setHeader("ETag", etag);
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+      data = data || (await this.blobStore.get(blobKey));
+    } catch (err) {
+      res.removeHeader("ETag");
+      throw new NotFoundError(`${key} not found`, { code: "BLOB_NOT_FOUND" });
+    }
+    const digest = blobKey === key ? hash : sha256(data);
+    res.setHeader(
+      "Digest",
+      `SHA-256=${Buffer.from(digest, "hex").toString("base64")}`,
+    );
+    if (blobKey !== key) {
+      res.setHeader("Content-Encoding", encoding);
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      res.setHeader(name, value);
+    }
+    res.setHeader("Accept-Ranges", "bytes");
+    const ifRange = req.header("If-Range");
+    const ranges =
+      req.header("Range") && (!ifRange || ifRange === res.get("ETag"))
+        ? req.range(data.length)
+        : undefined;
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${data.length}`);
+      return res.status(416).end();
+    }
+    if (_.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+      const [{ end, start }] = ranges;
+      res.setHeader("Content-Range", `bytes ${start}-${end}/${data.length}`);
+      return res.status(206).send(data.slice(start, end + 1));
+    }
+    res.send(data);
+  }
+
+  private validateStoreAccessKey(scope: AccessKeyScope) {
+    return (req, res, next) => {
+      const key = req.header("ERN-BUNDLE-STORE-ACCESS-KEY");
+      if (!key) {
+        return next(
+          new ValidationError(
+            "Missing ERN-BUNDLE-STORE-ACCESS-KEY in request headers.",
+            { code: "MISSING_ACCESS_KEY" },
+          ),
+        );
+      }
+      const accessKey = this.db.findAccessKey({ key, storeId: req.store.id });
+      if (!accessKey) {
+        return next(
+          new UnauthorizedError("Invalid store access key", {
+            code: "INVALID_ACCESS_KEY",
+          }),
+        );
+      }
+      if (!BundleStoreDb.hasScope(accessKey, scope)) {
+        return next(
+          new UnauthorizedError(`Store access key is missing ${scope} scope`, {
+            code: "MISSING_SCOPE",
+            details: { scope },
+          }),
+        );
+      }
+      req.accessKey = accessKey;
+      next();
+    };
+  }
+
+  /**
+   * Picks the encoding with the highest quality in an Accept-Encoding
+   * header, ties being broken by the order of the available encodings.
+   * Returns undefined if the content should not be encoded.
+   */
+  private negotiateEncoding(
+    acceptEncoding: string | undefined,
+    encodings: ContentEncoding[],
+  ): ContentEncoding | undefined {
+    const qualities: { [encoding: string]: number } = {};
+    for (const entry of (acceptEncoding || "").split(",")) {
+      const [name, ...params] = entry.trim().split(";");
+      const q = _.find(params, (p) => p.trim().startsWith("q="));
+      qualities[name.toLowerCase()] = q ? parseFloat(q.trim().slice(2)) : 1;
+    }
+    const quality = (e: string) =>
+      _.has(qualities, e) ? qualities[e] : qualities["*"] || 0;
+    const best = _.maxBy(encodings.filter((e) => quality(e) > 0), (e) =>
+      quality(e),
+    );
+    return best && quality(best) >= quality("identity") ? best : undefined;
+  }
+
+  private validateAdminToken(req, res, next) {
+    if (!this.config.adminToken) {
+      return next();
+    }
+    const token = req.header("ERN-BUNDLE-STORE-ADMIN-TOKEN");
+    if (!token) {
+      return next(
+        new ValidationError(
+          "Missing ERN-BUNDLE-STORE-ADMIN-TOKEN in request headers.",
+          { code: "MISSING_ADMIN_TOKEN" },
+        ),
+      );
+    }
+    const hash = (s: string) =>
+      crypto
+        .createHash("sha256")
+        .update(s)
+        .digest();
+    if (!crypto.timingSafeEqual(hash(token), hash(this.config.adminToken))) {
+      return next(
+        new UnauthorizedError("Invalid admin token", {
+          code: "INVALID_ADMIN_TOKEN",
+        }),
+      );
+    }
+    next();
+  }
+
+  private validateAdminApiEnabled(req, res, next) {
+    if (!this.config.adminToken) {
+      return next(
+        new UnauthorizedError(
+          "Admin routes are disabled as no admin token is configured",
+          { code: "ADMIN_DISABLED" },
+        ),
+      );
+    }
+    next();
+  }
+
+  private validateStoreReadAccess(req, res, next) {
+    const { query } = url.parse(req.bundleUrl || req.originalUrl, true);
+    const { signature, token } = query as { [name: string]: string };
+    // Signatures are only checked for private stores, so that a stale
+    // signed url of a public store is still served
+    if (!req.store.private) {
+      return next();
+    }
+    if (signature) {
+      return this.validateSignedUrl(req, res, next);
+    }
+    if (!token) {
+      return this.validateStoreAccessKey("read")(req, res, next);
+    }
+    const accessKey = _.isString(token)
+      ? this.db.findAccessKeyByToken({ storeId: req.store.id, token })
+      : undefined;
+    if (!accessKey || !BundleStoreDb.hasScope(accessKey, "read")) {
+      return next(
+        new UnauthorizedError("Invalid store access token", {
+          code: "INVALID_ACCESS_TOKEN",
+        }),
+      );
+    }
+    req.accessKey = accessKey;
+    next();
+  }
+
+  private validateSignedUrl(req, res, next) {
+    const { pathname, query } = url.parse(
+      req.bundleUrl || req.originalUrl,
+      true,
+    );
+    const { expires, keyId, signature } = query as { [name: string]: string };
+    const accessKey =
+      _.isString(keyId) && _.isString(signature)
+        ? this.db.findAccessKeyBySignature({
+            expiresAt: parseInt(expires, 10),
+            keyId,
+            resource: pathname!,
+            signature,
+            storeId: req.store.id,
+          })
+        : undefined;
+    if (!accessKey || !BundleStoreDb.hasScope(accessKey, "read")) {
+      return next(
+        new UnauthorizedError("Invalid or expired signed url", {
+          code: "INVALID_SIGNATURE",
+        }),
+      );
+    }
+    req.accessKey = accessKey;
+    next();
+  }
+
+  private createSignedUrl(req, expiresAt: number): string {
+    const storeId = encodeURIComponent(req.store.id);
+    const resource = `/bundles/${storeId}/${req.bundle.platform}/${req.bundle.id}/index.bundle`;
+    const signature = this.db.signResource({
+      expiresAt,
+      keyId: req.accessKey.id,
+      resource,
+      storeId: req.store.id,
+    });
+    return url.format({
+      host: req.get("host"),
+      pathname: resource,
+      protocol: req.protocol,
+      query: { expires: expiresAt, keyId: req.accessKey.id, signature },
+    });
+  }
+
+  private parseAccessKeyRequest(
+    body: any,
+  ): { expiresAt?: number; name: string; scopes: AccessKeyScope[] } {
+    const { expiresAt, name, scopes } = body;
+    const validScopes = ["read", "upload", "delete", "admin"];
+    if (!_.isString(name) || name.length === 0) {
+      throw new ValidationError("Missing access key name in request body.", {
+        code: "INVALID_ACCESS_KEY_REQUEST",
+      });
+    }
+    if (
+      !_.isArray(scopes) ||
+      scopes.length === 0 ||
+      !_.every(scopes, (sc) => validScopes.includes(sc))
+    ) {
+      throw new ValidationError(
+        `Access key scopes should be an array of ${validScopes.join(", ")}`,
+        { code: "INVALID_ACCESS_KEY_REQUEST" },
+      );
+    }
+    if (
+      expiresAt !== undefined &&
+      (!_.isNumber(expiresAt) || expiresAt <= Date.now())
+    ) {
+      throw new ValidationError(
+        "Access key expiresAt should be a future timestamp",
+        { code: "INVALID_ACCESS_KEY_REQUEST" },
+      );
+    }
+    return { expiresAt, name, scopes };
+  }
+
+  /**
+   * Gets the key of the bundle a stack frame belongs to, if the file of
+   * the frame is the url of a store bundle.
+   */
+  private getSymbolicationTargetKey(frame: StackFrame): string | undefined {
+    if (!frame || !_.isString(frame.file) || !frame.file.startsWith("http")) {
+      return undefined;
+    }
+    try {
+      const { bundleId, platform, storeId } = this.extractSegmentsFromBundleUrl(
+        frame.file,
+      );
+      return `${storeId}/${platform}/${bundleId}`;
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  private addSymbolicationTargetsToReq(req, res, next) {
+    req.symbolicationTargets = {};
+    try {
+      req.stackFrames = JSON.parse(req.text).stack;
+      for (const frame of req.stackFrames.map(stripHermesAddress)) {
+        const key = this.getSymbolicationTargetKey(frame);
+        if (key && !req.symbolicationTargets[key]) {
+          req.symbolicationTargets[key] = {
+            ...this.extractSegmentsFromBundleUrl(frame.file),
+            bundleUrl: frame.file,
+          };
+        }
+      }
+    } catch (err) {
+      req.symbolicationTargets = {};
+    }
+    if (_.isEmpty(req.symbolicationTargets)) {
+      return next(
+        new ValidationError("Stack does not reference a store bundle", {
+          code: "INVALID_STACK",
+        }),
+      );
+    }
+    next();
+  }
+
+  /**
+   * Validates the read access to the store of each bundle referenced by the
+   * stack, and resolves these bundles.
+   */
+  private async resolveSymbolicationTargets(req, res, next) {
+    try {
+      for (const key of Object.keys(req.symbolicationTargets)) {
+        const target: SymbolicationTarget = req.symbolicationTargets[key];
+        req.store = this.db.getStore(target.storeId);
+        // The bundle of a private store is loaded with a token or a signature
+        // in its url, that the runtime does not forward to this route.
+        req.bundleUrl = target.bundleUrl;
+        await new Promise((resolve, reject) =>
+          this.validateStoreReadAccess(req, res, (err?: Error) =>
+            err ? reject(err) : resolve(),
+          ),
+        );
+        target.bundle = this.db.resolveBundle({
+          bundleRef: target.bundleId,
+          platform: target.platform,
+          storeId: target.storeId,
+        });
+      }
+    } catch (err) {
+      return next(err);
+    }
+    next();
+  }
+
+  private addBundleToReq(req, res, next) {
+    const {
+      bundleId,
+      platform,
+    }: { bundleId: string; platform: Platform } = req.params;
+    const storeId = req.store.id;
+    try {
+      req.bundle = this.db.resolveBundle({
+        bundleRef: bundleId,
+        platform,
+        storeId,
+      });
+    } catch (err) {
+      return next(err);
+    }
+    next();
+  }
+
+  /**
+   * Adds a bundle to the request by its id only, unlike addBundleToReq
+   * which also resolves labels and `latest`. Used by the routes modifying
+   * a specific bundle.
+   */
+  private addBundleByIdToReq(req, res, next) {
+    const { bundleId, platform } = req.params;
+    try {
+      const bundle = this.db.getBundle({ bundleId, storeId: req.store.id });
+      if (bundle.platform !== platform) {
+        throw new NotFoundError(
+          `Bundle ${bundleId} is not a ${platform} bundle`,
+          {
+            code: "BUNDLE_NOT_FOUND",
+            details: { bundleId, platform, storeId: req.store.id },
+          },
+        );
+      }
+      req.bundle = bundle;
+    } catch (err) {
+      return next(err);
+    }
+    next();
+  }
+
+  private setLabel(req, res, status: number) {
+    const { label, platform } = req.params;
+    const { bundleId } = req.body;
+    const storeId = req.store.id;
+    if (!bundleId) {
+      throw new ValidationError("Missing bundleId in request body.");
+    }
+    res
+      .status(status)
+      .json(this.db.setLabel({ bundleId, name: label, platform, storeId }));
+  }
+
+  private omitAccessKeyHashes(store: Store) {
+    return {
+      ...store,
+      accessKeys: _.map(store.accessKeys, (k) => _.omit(k, "hash")),
+    };
+  }
+
+  private addAccessKeyIdToReq(req, res, next) {
+    const { keyId } = req.params;
+    if (!_.some(this.db.getAccessKeys(req.store.id), (k) => k.id === keyId)) {
+      return next(
+        new NotFoundError(`Access key ${keyId} does not exist`, {
+          code: "ACCESS_KEY_NOT_FOUND",
+          details: { keyId, storeId: req.store.id },
+        }),
+      );
+    }
+    next();
+  }
+
+  private addBundleFilterToReq(req, res, next) {
+    try {
+      req.filter = this.parseBundleFilter(req.query);
+    } catch (err) {
+      return next(err);
+    }
+    next();
+  }
+
+  private addStoreToReq(req, res, next) {
+    const { storeId } = req.params;
+    try {
+      req.store = this.db.getStore(storeId);
+    } catch (err) {
+      return next(err);
+    }
+    next();
+  }
+
+  private noop() {
+    // noop
+  }
+
+  private createAppRoutes() {
+    const upload = multer({ storage: this.storage });
 
     this.wsInstance.app.ws("*", (ws, req) => {
       // Swallow
@@ -320,67 +2108,123 @@ export class BundleStoreServer {
       res.end();
     });
 
-    this.app.get("/assets/*", (req, res) => {
+    this.app.get("/assets/*", async (req, res, next) => {
       const { hash } = req.query;
-      const pathToFile = path.join(
-        this.config.paths.assets,
-        hash,
-        path.basename(req.path),
-      );
-      if (fs.existsSync(pathToFile)) {
-        res.writeHead(200, {
-          "Transfer-Encoding": "chunked",
-        });
-        const readabale = fs.createReadStream(pathToFile);
-        readabale.pipe(res);
-      } else {
-        res.sendStatus(404);
+      const key = this.getAssetBlobKey(hash, path.basename(req.path));
+      let asset: Buffer;
+      try {
+        asset = await this.blobStore.get(key);
+      } catch (err) {
+        return next(
+          new NotFoundError(`${key} not found`, { code: "ASSET_NOT_FOUND" }),
+        );
       }
-    });
-
-    this.app.post("/symbolicate", async (req, res) => {
-      const stack = JSON.parse(req.text).stack;
-      const bundleUrl = _.find(stack, (frame) => frame.file.startsWith("http"))
-        .file;
-      const { bundleId, platform, storeId } = this.extractSegmentsFromBundleUrl(
-        bundleUrl,
-      );
-      const sourceMap = this.getSourceMap({
-        bundleId,
-        platform: platform as Platform,
-        storeId,
-      });
-      const symbolicated = await this.symbolicate(stack, sourceMap);
       res.writeHead(200, {
-        "Content-Type": "text/plain",
         "Transfer-Encoding": "chunked",
       });
+      res.end(asset);
+    });
+
+    this.app.post(
+      "/symbolicate",
+      this.addSymbolicationTargetsToReq.bind(this),
+      this.resolveSymbolicationTargets.bind(this),
+      async (req, res, next) => {
+        try {
+          const symbolicated = await this.symbolicate(
+            req.stackFrames,
+            (frame) => {
+              const key = this.getSymbolicationTargetKey(frame);
+              return key && req.symbolicationTargets[key].bundle;
+            },
+          );
+          res.writeHead(200, {
+            "Content-Type": "text/plain",
+            "Transfer-Encoding": "chunked",
+          });
+
+          res.write(JSON.stringify(symbolicated));
+          res.end();
+        } catch (err) {
+          next(err);
+        }
+      },
+    );
 
-      res.write(JSON.stringify({ stack: symbolicated }));
-      res.end();
-    });
+    this.app.post(
+      "/symbolicate/:storeId/:platform/:bundleId",
+      this.addStoreToReq.bind(this),
+      this.validateStoreReadAccess.bind(this),
+      this.addBundleToReq.bind(this),
+      async (req, res, next) => {
+        try {
+          const { stack } = req.body;
+          if (!_.isArray(stack)) {
+            throw new ValidationError("Missing stack in request body", {
+              code: "INVALID_STACK",
+            });
+          }
+          res.json(await this.symbolicate(stack, () => req.bundle));
+        } catch (err) {
+          next(err);
+        }
+      },
+    );
+
+    this.app.post(
+      "/symbolicate/:storeId/:platform/:bundleId/crash-log",
+      this.addStoreToReq.bind(this),
+      this.validateStoreReadAccess.bind(this),
+      this.addBundleToReq.bind(this),
+      async (req, res, next) => {
+        try {
+          if (!req.text) {
+            throw new ValidationError("Missing crash log in request body", {
+              code: "INVALID_CRASH_LOG",
+            });
+          }
+          res.json(await this.symbolicateCrashLog(req.text, req.bundle));
+        } catch (err) {
+          next(err);
+        }
+      },
+    );
 
     this.app.get(
       "/bundles/:storeId/:platform/:bundleId/index.bundle",
       this.addStoreToReq.bind(this),
+      this.validateStoreReadAccess.bind(this),
       this.addBundleToReq.bind(this),
-      (req, res) => {
-        const bundle = req.bundle;
-        res.sendFile(this.getPathToBundle(bundle.id), {
-          headers: {
-            "Content-Type": "application/javascript",
-          },
-        });
+      (req, res, next) => {
+        try {
+          const artifact = this.selectBundleArtifact(req, res, req.bundle);
+          this.sendBlob(req, res, {
+            hash: artifact.hash,
+            headers: { "Content-Type": BUNDLE_CONTENT_TYPES[artifact.format] },
+            key: artifact.key,
+            variants: artifact.variants,
+          }).catch(next);
+        } catch (err) {
+          next(err);
+        }
       },
     );
 
     this.app.get(
       "/bundles/:storeId/:platform/:bundleId/index.map",
       this.addStoreToReq.bind(this),
+      this.validateStoreReadAccess.bind(this),
       this.addBundleToReq.bind(this),
-      (req, res) => {
-        const bundle = req.bundle;
-        res.sendFile(this.getPathToSourceMap(bundle.sourceMap));
+      (req, res, next) => {
+        try {
+          const artifact = this.selectBundleArtifact(req, res, req.bundle);
+          this.sendBlob(req, res, {
+            hash: artifact.sourceMapHash,
+            key: artifact.sourceMap,
+          }).catch(next);
+        } catch (err) {
+          next(err);
+        }
       },
     );
 
@@ -391,85 +2235,520 @@ export class BundleStoreServer {
     this.app.post(
       "/bundles/:storeId/:platform",
       this.addStoreToReq.bind(this),
-      this.validateStoreAccessKey.bind(this),
-      this.addFileIdsToReqParams.bind(this),
+      this.validateStoreAccessKey("upload"),
       upload.fields([
         { name: "bundle", maxCount: 1 },
         { name: "sourcemap", maxCount: 1 },
+        { name: "hbc", maxCount: 1 },
+        { name: "hbcsourcemap", maxCount: 1 },
       ]),
+      async (req, res, next) => {
+        const files = req.files || {};
+        const bundleFile: UploadedFile | undefined =
+          files.bundle && files.bundle[0];
+        const sourceMapFile: UploadedFile | undefined =
+          files.sourcemap && files.sourcemap[0];
+        const hbcFile: UploadedFile | undefined = files.hbc && files.hbc[0];
+        const hbcSourceMapFile: UploadedFile | undefined =
+          files.hbcsourcemap && files.hbcsourcemap[0];
+        try {
+          this.validateUpload({
+            bundle: bundleFile,
+            platform: req.params.platform,
+            sourceMap: sourceMapFile,
+          });
+          this.validateHermesUpload({
+            bundle: bundleFile!,
+            hbc: hbcFile,
+            hbcSourceMap: hbcSourceMapFile,
+          });
+          const format = this.getBundleFormat(bundleFile!.buffer!);
+          // Assets cannot be extracted from the content of bytecode bundles
+          if (format === "hbc" && req.body.assets === undefined) {
+            throw new ValidationError(
+              "assets manifest is required for Hermes bytecode bundles",
+              { code: "MISSING_ASSETS" },
+            );
+          }
+          const metadata =
+            req.body.metadata && this.parseBundleMetadata(req.body.metadata);
+          const assets =
+            req.body.assets !== undefined
+              ? this.parseAssetManifest(req.body.assets)
+              : this.extractAssetHashes(bundleFile!.buffer!, { strict: true });
+          const bundle = await this.withPendingBlobs(async (markPending) => {
+            // Assets are marked by the prefix of the keys of their files
+            markPending(assets.map((hash) => this.getAssetBlobKeyPrefix(hash)));
+            const blobs = await this.putUploadedBundleBlobs(
+              bundleFile!.buffer!,
+              sourceMapFile!.buffer!,
+              hbcFile && {
+                bytecode: hbcFile.buffer!,
+                sourceMap: hbcSourceMapFile!.buffer!,
+              },
+              markPending,
+            );
+            const uploaded: Bundle = {
+              ...blobs,
+              assets,
+              format,
+              id: uuidv4(),
+              platform: req.params.platform,
+              timestamp: Date.now(),
+            };
+            if (metadata) {
+              uploaded.metadata = metadata;
+            }
+            return this.addBundleToStore(req.store, uploaded);
+          });
+          res.status(201).json(bundle);
+        } catch (err) {
+          next(err);
+        }
+      },
+    );
+
+    this.app.post(
+      "/bundles/:storeId/:platform/:bundleId/signed-url",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("read"),
+      this.addBundleToReq.bind(this),
       (req, res) => {
-        const { bundleId, sourceMapId, platform } = req.params;
-        const bundle = {
-          id: bundleId,
-          platform: platform as Platform,
-          sourceMap: sourceMapId,
-          timestamp: Date.now(),
-        };
-        this.addBundleToStore(req.store, bundle);
-        res.status(201).json(bundle);
+        const { expiresAt = Date.now() + 24 * 60 * 60 * 1000 } = req.body;
+        if (!_.isNumber(expiresAt) || expiresAt <= Date.now()) {
+          throw new ValidationError(
+            "Signed url expiresAt should be a future timestamp",
+          );
+        }
+        res.status(201).json({
+          expiresAt,
+          url: this.createSignedUrl(req, expiresAt),
+        });
+      },
+    );
+
+    this.app.delete(
+      "/bundles/:storeId/:platform/:bundleId",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("delete"),
+      this.addBundleByIdToReq.bind(this),
+      async (req, res, next) => {
+        try {
+          const bundle = await this.delBundle({
+            bundleId: req.bundle.id,
+            force: req.query.force === "true",
+            storeId: req.store.id,
+          });
+          res.json(bundle);
+        } catch (err) {
+          next(err);
+        }
+      },
+    );
+
+    this.app.patch(
+      "/bundles/:storeId/:platform/:bundleId",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("upload"),
+      this.addBundleByIdToReq.bind(this),
+      (req, res) => {
+        const { metadata } = req.body;
+        if (metadata === undefined) {
+          throw new ValidationError("Missing metadata in request body.");
+        }
+        res.json(
+          this.db.setBundleMetadata({
+            bundleId: req.bundle.id,
+            metadata:
+              metadata === null ? null : this.validateBundleMetadata(metadata),
+            storeId: req.store.id,
+          }),
+        );
+      },
+    );
+
+    this.app.put(
+      "/bundles/:storeId/:platform/:bundleId/pin",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("upload"),
+      this.addBundleToReq.bind(this),
+      (req, res) => {
+        res.json(
+          this.db.setBundlePinned({
+            bundleId: req.bundle.id,
+            pinned: true,
+            storeId: req.store.id,
+          }),
+        );
+      },
+    );
+
+    this.app.delete(
+      "/bundles/:storeId/:platform/:bundleId/pin",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("upload"),
+      this.addBundleToReq.bind(this),
+      (req, res) => {
+        res.json(
+          this.db.setBundlePinned({
+            bundleId: req.bundle.id,
+            pinned: false,
+            storeId: req.store.id,
+          }),
+        );
       },
     );
 
     this.app.get(
       "/bundles/:storeId",
       this.addStoreToReq.bind(this),
+      this.validateStoreReadAccess.bind(this),
+      this.addBundleFilterToReq.bind(this),
       (req, res) => {
-        res.json(req.store.bundles);
+        res.json(
+          this.db.getBundles({ filter: req.filter, storeId: req.store.id }),
+        );
       },
     );
 
     this.app.get(
       "/bundles/:storeId/:platform",
       this.addStoreToReq.bind(this),
+      this.validateStoreReadAccess.bind(this),
+      this.addBundleFilterToReq.bind(this),
       (req, res) => {
         res.json(
-          _.filter(
-            req.store.bundles,
-            (s) => s.platform === req.params.platform,
-          ),
+          this.db.getBundles({
+            filter: req.filter,
+            platform: req.params.platform,
+            storeId: req.store.id,
+          }),
         );
       },
     );
 
-    this.app.post("/stores/:storeId", (req, res) => {
-      const { storeId } = req.params;
-      if (this.db.hasStore(storeId)) {
-        return res.status(400).send(`store id ${storeId} already exist`);
-      }
-      const store = this.db.createStore(req.params.storeId);
-      res.status(201).json(store);
-    });
+    this.app.get(
+      "/labels/:storeId",
+      this.addStoreToReq.bind(this),
+      this.validateStoreReadAccess.bind(this),
+      (req, res) => {
+        res.json(this.db.getLabels({ storeId: req.store.id }));
+      },
+    );
+
+    this.app.get(
+      "/labels/:storeId/:platform",
+      this.addStoreToReq.bind(this),
+      this.validateStoreReadAccess.bind(this),
+      (req, res) => {
+        res.json(
+          this.db.getLabels({
+            platform: req.params.platform,
+            storeId: req.store.id,
+          }),
+        );
+      },
+    );
+
+    this.app.post(
+      "/labels/:storeId/:platform/:label",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("upload"),
+      (req, res) => {
+        const { label, platform } = req.params;
+        const storeId = req.store.id;
+        if (this.db.hasLabel({ name: label, platform, storeId })) {
+          throw new ConflictError(`label ${label} already exist`, {
+            code: "LABEL_ALREADY_EXISTS",
+            details: { name: label, platform, storeId },
+          });
+        }
+        this.setLabel(req, res, 201);
+      },
+    );
+
+    this.app.put(
+      "/labels/:storeId/:platform/:label",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("upload"),
+      (req, res) => {
+        const { label, platform } = req.params;
+        const storeId = req.store.id;
+        this.db.getLabel({ name: label, platform, storeId });
+        this.setLabel(req, res, 200);
+      },
+    );
+
+    this.app.delete(
+      "/labels/:storeId/:platform/:label",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("upload"),
+      (req, res) => {
+        const { label, platform } = req.params;
+        const storeId = req.store.id;
+        this.db.getLabel({ name: label, platform, storeId });
+        res.json(this.db.delLabel({ name: label, platform, storeId }));
+      },
+    );
+
+    this.app.post(
+      "/stores/:storeId",
+      this.validateAdminToken.bind(this),
+      (req, res) => {
+        const store = this.db.createStore(req.params.storeId);
+        res.status(201).json(this.omitAccessKeyHashes(store));
+      },
+    );
 
     this.app.delete(
       "/stores/:storeId",
       this.addStoreToReq.bind(this),
-      this.validateStoreAccessKey.bind(this),
+      this.validateStoreAccessKey("delete"),
+      async (req, res, next) => {
+        try {
+          const store = await this.delStore(req.store.id);
+          res.status(200).json(this.omitAccessKeyHashes(store));
+        } catch (err) {
+          next(err);
+        }
+      },
+    );
+
+    this.app.patch(
+      "/stores/:storeId",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("admin"),
+      (req, res) => {
+        const { private: isPrivate, retention } = req.body;
+        const storeId = req.store.id;
+        if (isPrivate === undefined && retention === undefined) {
+          throw new ValidationError(
+            "Missing private boolean or retention policy in request body.",
+          );
+        }
+        if (isPrivate !== undefined && !_.isBoolean(isPrivate)) {
+          throw new ValidationError("private should be a boolean");
+        }
+        const policy =
+          retention !== undefined && this.parseRetentionPolicy(retention);
+        if (isPrivate !== undefined) {
+          this.db.setStorePrivate({ isPrivate, storeId });
+        }
+        if (policy !== false) {
+          this.db.setStoreRetention({ retention: policy, storeId });
+        }
+        res.json(this.omitAccessKeyHashes(this.db.getStore(storeId)));
+      },
+    );
+
+    this.app.post(
+      "/stores/:storeId/sweep",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("delete"),
+      async (req, res, next) => {
+        try {
+          const dryRun = req.query.dryRun === "true";
+          const evicted = await this.applyRetentionPolicy(req.store.id, {
+            dryRun,
+          });
+          res.json({ dryRun, evicted });
+        } catch (err) {
+          next(err);
+        }
+      },
+    );
+
+    this.app.post(
+      "/stores/:storeId/tokens",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("read"),
+      (req, res) => {
+        const { expiresAt = Date.now() + 24 * 60 * 60 * 1000 } = req.body;
+        if (!_.isNumber(expiresAt) || expiresAt <= Date.now()) {
+          throw new ValidationError(
+            "Access token expiresAt should be a future timestamp",
+          );
+        }
+        const token = this.db.createAccessToken({
+          expiresAt,
+          keyId: req.accessKey.id,
+          storeId: req.store.id,
+        });
+        res.status(201).json({ expiresAt, token });
+      },
+    );
+
+    this.app.get(
+      "/stores/:storeId/keys",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("admin"),
+      (req, res) => {
+        res.json(
+          _.map(this.db.getAccessKeys(req.store.id), (k) => _.omit(k, "hash")),
+        );
+      },
+    );
+
+    this.app.post(
+      "/stores/:storeId/keys",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("admin"),
+      (req, res) => {
+        const { accessKey, key } = this.db.createAccessKey({
+          ...this.parseAccessKeyRequest(req.body),
+          storeId: req.store.id,
+        });
+        res.status(201).json({ ..._.omit(accessKey, "hash"), key });
+      },
+    );
+
+    this.app.post(
+      "/stores/:storeId/keys/:keyId/rotate",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("admin"),
+      this.addAccessKeyIdToReq.bind(this),
+      (req, res) => {
+        const { accessKey, key } = this.db.rotateAccessKey({
+          keyId: req.params.keyId,
+          storeId: req.store.id,
+        });
+        res.json({ ..._.omit(accessKey, "hash"), key });
+      },
+    );
+
+    this.app.delete(
+      "/stores/:storeId/keys/:keyId",
+      this.addStoreToReq.bind(this),
+      this.validateStoreAccessKey("admin"),
+      this.addAccessKeyIdToReq.bind(this),
       (req, res) => {
-        for (const bundle of req.store.bundles) {
-          shell.rm(
-            this.getPathToBundle(bundle.id),
-            this.getPathToSourceMap(bundle.sourceMap),
+        const { keyId } = req.params;
+        const storeId = req.store.id;
+        const otherAdminKeys = _.filter(
+          this.db.getAccessKeys(storeId),
+          (k) =>
+            k.id !== keyId &&
+            BundleStoreDb.hasScope(k, "admin") &&
+            !BundleStoreDb.isExpired(k),
+        );
+        if (otherAdminKeys.length === 0) {
+          throw new ConflictError(
+            "Cannot revoke the last admin access key of the store",
+            { code: "LAST_ADMIN_KEY" },
           );
         }
-        const store = this.db.delStore(req.store.id);
-        res.status(200).json(store);
+        res.json(_.omit(this.db.revokeAccessKey({ keyId, storeId }), "hash"));
       },
     );
 
-    this.app.get("/stores", (req, res) => {
+    this.app.get("/stores", (req, res, next) => {
       const { accessKey } = req.query;
       if (accessKey) {
-        const store = _.find(
-          this.db.getStores(),
-          (s: Store) => s.accessKey === accessKey,
-        );
+        const store = this.db.findStoreByAccessKey(accessKey);
         if (!store) {
-          res.status(404).send(`No store found with access key ${accessKey}`);
-        } else {
-          res.json(store);
+          throw new NotFoundError(
+            `No store found with access key ${accessKey}`,
+            {
+              code: "STORE_NOT_FOUND",
+            },
+          );
         }
+        const key = this.db.findAccessKey({
+          key: accessKey,
+          storeId: store.id,
+        });
+        // Like `GET /stores/:storeId/keys`, listing the keys requires admin scope
+        res.json(
+          BundleStoreDb.hasScope(key!, "admin")
+            ? this.omitAccessKeyHashes(store)
+            : _.omit(store, ["accessKey", "accessKeys"]),
+        );
       } else {
-        res.json(Object.keys(this.db.getStores()));
+        this.validateAdminToken(req, res, (err) =>
+          err ? next(err) : res.json(Object.keys(this.db.getStores())),
+        );
+      }
+    });
+
+    // ============================================================================
+    // Admin Endpoints
+    // ============================================================================
+
+    this.app.use(
+      "/admin",
+      this.validateAdminApiEnabled.bind(this),
+      this.validateAdminToken.bind(this),
+    );
+
+    this.app.get("/admin/cache", (req, res) => {
+      res.json({ sourceMaps: this.sourceMapCache.getStats() });
+    });
+
+    this.app.get("/admin/stores", (req, res) => {
+      res.json(
+        _.map(Object.values(this.db.getStores()), (s) => this.getStoreStats(s)),
+      );
+    });
+
+    this.app.delete(
+      "/admin/stores/:storeId",
+      this.addStoreToReq.bind(this),
+      async (req, res, next) => {
+        try {
+          const store = await this.delStore(req.store.id);
+          res.json(this.omitAccessKeyHashes(store));
+        } catch (err) {
+          next(err);
+        }
+      },
+    );
+
+    this.app.post(
+      "/admin/stores/:storeId/reset-keys",
+      this.addStoreToReq.bind(this),
+      (req, res) => {
+        const { accessKey, key } = this.db.resetAccessKeys(req.store.id);
+        res.json({ ..._.omit(accessKey, "hash"), key });
+      },
+    );
+
+    this.app.post("/admin/purge", async (req, res, next) => {
+      try {
+        const dryRun = req.query.dryRun === "true";
+        const purged = await this.purgeOrphanedBlobs({ dryRun });
+        res.json({ dryRun, purged });
+      } catch (err) {
+        next(err);
+      }
+    });
+
+    this.app.post("/admin/sweep", async (req, res, next) => {
+      try {
+        const dryRun = req.query.dryRun === "true";
+        const evicted = await this.sweepStores({ dryRun });
+        res.json({ dryRun, evicted });
+      } catch (err) {
+        next(err);
+      }
+    });
+
+    this.app.post("/admin/gc", async (req, res, next) => {
+      try {
+        const dryRun = req.query.dryRun === "true";
+        let minAge;
+        if (req.query.minAge !== undefined) {
+          minAge = Number(req.query.minAge);
+          if (!Number.isInteger(minAge) || minAge < 0) {
+            throw new ValidationError(
+              `minAge should be a positive number of milliseconds`,
+              { code: "INVALID_MIN_AGE" },
+            );
+          }
+        }
+        const result = await this.collectAssetGarbage({ dryRun, minAge });
+        res.json({ ...result, dryRun });
+      } catch (err) {
+        next(err);
       }
     });
 
@@ -478,15 +2757,11 @@ export class BundleStoreServer {
       upload.single("assets").bind(this),
       async (req, res, next) => {
         try {
-          const zippedAssetsPath = path.join(
-            req.file.destination,
-            req.file.filename,
-          );
-          const newAssets = await this.unzipAssets(
-            zippedAssetsPath,
-            this.config.paths.assets,
-          );
-          this.db.createAssets(newAssets);
+          const newAssets = await this.withPendingBlobs(async (markPending) => {
+            const hashes = await this.unzipAssets(req.file.path, markPending);
+            this.db.createAssets(hashes);
+            return hashes;
+          });
           res.status(201).send(newAssets);
         } catch (err) {
           next(err);
@@ -499,5 +2774,35 @@ export class BundleStoreServer {
       const newAssets = _.difference(assets, Object.keys(this.db.getAssets()));
       res.json(newAssets);
     });
+
+    this.app.use(this.handleError.bind(this));
+  }
+
+  /**
+   * Central error handler, replying with a `{ code, message, details }`
+   * JSON body. Errors that are not bundle store errors are logged, and
+   * replied with a generic 500 error not leaking any internal detail.
+   */
+  private handleError(err, req, res, next) {
+    if (res.headersSent) {
+      return next(err);
+    }
+    let error: BundleStoreError;
+    if (err instanceof BundleStoreError) {
+      error = err;
+    } else if (err instanceof multer.MulterError) {
+      error = new ValidationError(err.message, { code: err.code });
+    } else if (err.expose && err.status < 500) {
+      // Request body parsing errors
+      error = new BundleStoreError(err.status, "INVALID_REQUEST", err.message);
+    } else {
+      this.d(`${req.method} ${req.originalUrl} failed: ${err.stack}`);
+      error = new BundleStoreError(
+        500,
+        "INTERNAL_ERROR",
+        "Internal server error",
+      );
+    }
+    res.status(error.status).json(error);
   }
 }
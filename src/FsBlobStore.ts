@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import shell from "shelljs";
+import { BlobStore } from "./BlobStore";
+
+// Temporary files blobs are written to before being renamed over the blob
+const TMP_FILE_PATTERN = /\.[0-9a-f]{16}\.tmp$/;
+
+/**
+ * Blob store driver storing blobs as files on the local file system.
+ * Each kind of blob is stored in its own directory, given by `paths`
+ * (for example `bundles/<bundleId>` is stored as `<paths.bundles>/<bundleId>`).
+ */
+export class FsBlobStore extends BlobStore {
+  constructor(public readonly paths: { [kind: string]: string }) {
+    super();
+    shell.mkdir("-p", ...Object.values(paths));
+  }
+
+  public getPathToBlob(key: string): string {
+    const [kind, ...segments] = key.split("/");
+    if (!this.paths[kind] || segments.length === 0) {
+      throw new Error(`Invalid blob key ${key}`);
+    }
+    const dir = path.resolve(this.paths[kind]);
+    const blobPath = path.resolve(dir, ...segments);
+    if (!blobPath.startsWith(`${dir}${path.sep}`)) {
+      throw new Error(`Invalid blob key ${key}`);
+    }
+    return blobPath;
+  }
+
+  /**
+   * Stores a blob so that it is either missing or complete, even if the
+   * process crashes midway: the blob is written and flushed to a temporary
+   * file that is then renamed over the blob. Temporary files are not listed.
+   */
+  public async put(key: string, data: Buffer) {
+    const blobPath = this.getPathToBlob(key);
+    shell.mkdir("-p", path.dirname(blobPath));
+    const tmpPath = `${blobPath}.${crypto.randomBytes(8).toString("hex")}.tmp`;
+    try {
+      const file = await fs.promises.open(tmpPath, "w");
+      try {
+        await file.writeFile(data);
+        await file.sync();
+      } finally {
+        await file.close();
+      }
+      await fs.promises.rename(tmpPath, blobPath);
+    } catch (err) {
+      shell.rm("-f", tmpPath);
+      throw err;
+    }
+  }
+
+  public async get(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.getPathToBlob(key));
+  }
+
+  public async has(key: string): Promise<boolean> {
+    return fs.existsSync(this.getPathToBlob(key));
+  }
+
+  public async size(key: string): Promise<number> {
+    const stats = await fs.promises.stat(this.getPathToBlob(key));
+    return stats.size;
+  }
+
+  public async del(key: string) {
+    try {
+      await fs.promises.unlink(this.getPathToBlob(key));
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        throw err;
+      }
+    }
+  }
+
+  public async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (const kind of Object.keys(this.paths)) {
+      if (!`${kind}/`.startsWith(prefix) && !prefix.startsWith(`${kind}/`)) {
+        continue;
+      }
+      for (const file of this.listFiles(this.paths[kind])) {
+        const key = `${kind}/${file.split(path.sep).join("/")}`;
+        if (key.startsWith(prefix)) {
+          keys.push(key);
+        }
+      }
+    }
+    return keys;
+  }
+
+  private listFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        files.push(
+          ...this.listFiles(path.join(dir, entry.name)).map((f) =>
+            path.join(entry.name, f),
+          ),
+        );
+      } else if (!TMP_FILE_PATTERN.test(entry.name)) {
+        files.push(entry.name);
+      }
+    }
+    return files;
+  }
+}
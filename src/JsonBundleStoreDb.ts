@@ -0,0 +1,170 @@
+/// <reference types="../types/index" />
+
+import fs from "fs";
+import _ from "lodash";
+import path from "path";
+import shell from "shelljs";
+import { BundleStoreDb } from "./BundleStoreDb";
+import { writeFileAtomicSync } from "./writeFileAtomicSync";
+
+/**
+ * Database backend keeping the whole database in a single JSON file,
+ * rewritten on every mutation.
+ *
+ * Each mutation is first appended to a journal file, then the database
+ * file is atomically replaced, and finally the journal is cleared.
+ * The previous versions of the database file are kept as rotating backups
+ * (`db.json.1` being the most recent one), used to recover the database
+ * if the database file ever gets corrupted.
+ */
+export class JsonBundleStoreDb extends BundleStoreDb {
+  public readonly backups: number;
+
+  constructor({
+    backups = 3,
+    dbPath,
+    seed = {
+      assets: {},
+      stores: {},
+    },
+    signingSecret,
+  }: {
+    backups?: number;
+    dbPath: string;
+    seed?: Db;
+    signingSecret?: string;
+  }) {
+    super({ dbPath, signingSecret });
+    this.backups = backups;
+    if (!fs.existsSync(dbPath) && !this.hasBackup()) {
+      shell.mkdir("-p", path.dirname(dbPath));
+      this.db = seed;
+      this.upgrade();
+      writeFileAtomicSync(dbPath, JSON.stringify(this.db));
+      this.d(`created new database in ${dbPath}`);
+    } else {
+      this.db = this.load();
+      const hashedKeys = this.upgrade();
+      this.replayJournal();
+      if (hashedKeys) {
+        // The backups still hold the plain text access keys
+        writeFileAtomicSync(dbPath, JSON.stringify(this.db));
+        this.deleteBackups();
+        this.d(`hashed the plain text access keys of ${dbPath}`);
+      }
+    }
+  }
+
+  public get journalPath(): string {
+    return `${this.dbPath}.journal`;
+  }
+
+  public getBackupPath(backup: number): string {
+    return `${this.dbPath}.${backup}`;
+  }
+
+  public write() {
+    this.d(`write database`);
+    this.rotateBackups();
+    writeFileAtomicSync(this.dbPath, JSON.stringify(this.db));
+  }
+
+  protected persist(mutation: DbMutation) {
+    fs.appendFileSync(this.journalPath, `${JSON.stringify(mutation)}\n`);
+    this.write();
+    fs.writeFileSync(this.journalPath, "");
+  }
+
+  private deleteBackups() {
+    for (const i of _.range(1, this.backups + 1)) {
+      shell.rm("-f", this.getBackupPath(i));
+    }
+  }
+
+  private hasBackup(): boolean {
+    return _.some(_.range(1, this.backups + 1), (i) =>
+      fs.existsSync(this.getBackupPath(i)),
+    );
+  }
+
+  private rotateBackups() {
+    if (this.backups < 1 || !fs.existsSync(this.dbPath)) {
+      return;
+    }
+    for (let i = this.backups - 1; i >= 1; i--) {
+      if (fs.existsSync(this.getBackupPath(i))) {
+        fs.renameSync(this.getBackupPath(i), this.getBackupPath(i + 1));
+      }
+    }
+    shell.rm("-f", this.getBackupPath(1));
+    try {
+      fs.linkSync(this.dbPath, this.getBackupPath(1));
+    } catch (err) {
+      fs.copyFileSync(this.dbPath, this.getBackupPath(1));
+    }
+  }
+
+  private load(): Db {
+    const candidates = [
+      this.dbPath,
+      ..._.range(1, this.backups + 1).map((i) => this.getBackupPath(i)),
+    ];
+    for (const candidate of candidates) {
+      if (!fs.existsSync(candidate)) {
+        continue;
+      }
+      let db: Db;
+      try {
+        db = JSON.parse(fs.readFileSync(candidate).toString());
+      } catch (err) {
+        this.d(`${candidate} is corrupt: ${err}`);
+        continue;
+      }
+      if (candidate !== this.dbPath) {
+        process.emitWarning(
+          `Database file ${this.dbPath} is missing or corrupt. Recovered database from backup ${candidate}.`,
+        );
+        writeFileAtomicSync(this.dbPath, JSON.stringify(db));
+      }
+      return db;
+    }
+    throw new Error(
+      `Database file ${this.dbPath} is corrupt and no valid backup was found`,
+    );
+  }
+
+  private replayJournal() {
+    if (!fs.existsSync(this.journalPath)) {
+      return;
+    }
+    const lines = fs
+      .readFileSync(this.journalPath)
+      .toString()
+      .split("\n")
+      .filter((l) => l.length > 0);
+    if (lines.length === 0) {
+      return;
+    }
+    for (const line of lines) {
+      let mutation: DbMutation;
+      try {
+        mutation = JSON.parse(line);
+      } catch (err) {
+        // Mutation was only partially written to the journal, meaning
+        // that it never reached the database file either.
+        this.d(`dropping partially written mutation: ${line}`);
+        break;
+      }
+      try {
+        this.apply(mutation);
+      } catch (err) {
+        process.emitWarning(
+          `Could not replay journaled mutation ${line} on database ${this.dbPath}: ${err}`,
+        );
+      }
+    }
+    this.d(`replayed ${lines.length} journaled mutation(s)`);
+    this.write();
+    fs.writeFileSync(this.journalPath, "");
+  }
+}
@@ -0,0 +1,99 @@
+/// <reference types="../types/index" />
+
+import fs from "fs";
+import path from "path";
+import shell from "shelljs";
+import { BundleStoreDb } from "./BundleStoreDb";
+import { writeFileAtomicSync } from "./writeFileAtomicSync";
+
+/**
+ * Database backend storing the database as an append-only log.
+ * The first line of the log is a snapshot of the database, and each
+ * following line is a mutation to replay on top of it. Once the log
+ * contains `compactThreshold` mutations, it is compacted into a new
+ * snapshot.
+ */
+export class LogBundleStoreDb extends BundleStoreDb {
+  public readonly compactThreshold: number;
+
+  private mutationsCount: number = 0;
+
+  constructor({
+    compactThreshold = 1000,
+    dbPath,
+    seed = {
+      assets: {},
+      stores: {},
+    },
+    signingSecret,
+  }: {
+    compactThreshold?: number;
+    dbPath: string;
+    seed?: Db;
+    signingSecret?: string;
+  }) {
+    super({ dbPath, signingSecret });
+    this.compactThreshold = compactThreshold;
+    if (!fs.existsSync(dbPath)) {
+      shell.mkdir("-p", path.dirname(dbPath));
+      this.db = seed;
+      this.upgrade();
+      this.compact();
+      this.d(`created new database in ${dbPath}`);
+    } else {
+      this.replay();
+    }
+  }
+
+  public compact() {
+    this.d(`compact database`);
+    writeFileAtomicSync(
+      this.dbPath,
+      `${JSON.stringify({ db: this.db, type: "snapshot" })}\n`,
+    );
+    this.mutationsCount = 0;
+  }
+
+  protected persist(mutation: DbMutation) {
+    fs.appendFileSync(this.dbPath, `${JSON.stringify(mutation)}\n`);
+    if (++this.mutationsCount >= this.compactThreshold) {
+      this.compact();
+    }
+  }
+
+  private replay() {
+    const lines = fs
+      .readFileSync(this.dbPath)
+      .toString()
+      .split("\n")
+      .filter((l) => l.length > 0);
+    const snapshot = JSON.parse(lines[0]);
+    if (snapshot.type !== "snapshot") {
+      throw new Error(`${this.dbPath} does not start with a snapshot`);
+    }
+    this.db = snapshot.db;
+    const hashedKeys = this.upgrade();
+    const mutations = lines.slice(1);
+    for (const [i, line] of mutations.entries()) {
+      let mutation: DbMutation;
+      try {
+        mutation = JSON.parse(line);
+      } catch (err) {
+        if (i < mutations.length - 1) {
+          throw err;
+        }
+        // Last mutation was only partially written. Drop it and compact
+        // so that next mutations are not appended to a truncated line.
+        this.d(`dropping partially written mutation: ${line}`);
+        this.compact();
+        return;
+      }
+      this.apply(mutation);
+    }
+    this.mutationsCount = mutations.length;
+    if (hashedKeys) {
+      // Rewrite the snapshot holding the plain text access keys
+      this.compact();
+    }
+  }
+}
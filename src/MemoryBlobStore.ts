@@ -0,0 +1,39 @@
+import { BlobStore } from "./BlobStore";
+
+/**
+ * Blob store driver keeping all blobs in memory.
+ * Mostly useful for tests.
+ */
+export class MemoryBlobStore extends BlobStore {
+  private readonly blobs: Map<string, Buffer> = new Map();
+
+  public async put(key: string, data: Buffer) {
+    this.blobs.set(key, Buffer.from(data));
+  }
+
+  public async get(key: string): Promise<Buffer> {
+    if (!this.blobs.has(key)) {
+      throw new Error(`Blob ${key} does not exist`);
+    }
+    return Buffer.from(this.blobs.get(key)!);
+  }
+
+  public async has(key: string): Promise<boolean> {
+    return this.blobs.has(key);
+  }
+
+  public async size(key: string): Promise<number> {
+    if (!this.blobs.has(key)) {
+      throw new Error(`Blob ${key} does not exist`);
+    }
+    return this.blobs.get(key)!.length;
+  }
+
+  public async del(key: string) {
+    this.blobs.delete(key);
+  }
+
+  public async list(prefix: string): Promise<string[]> {
+    return Array.from(this.blobs.keys()).filter((k) => k.startsWith(prefix));
+  }
+}
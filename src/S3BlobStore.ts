@@ -0,0 +1,285 @@
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import { URL } from "url";
+import { BlobStore } from "./BlobStore";
+
+/**
+ * Blob store driver storing blobs as objects of a bucket, using the S3 API.
+ * Works with AWS S3 as well as with any S3 compatible object storage
+ * (MinIO, Ceph, ...). Requests are made using path-style URLs
+ * (`<endpoint>/<bucket>/<key>`) and signed using AWS Signature Version 4.
+ */
+export class S3BlobStore extends BlobStore {
+  public readonly accessKeyId: string;
+  public readonly bucket: string;
+  public readonly endpoint: URL;
+  public readonly prefix: string;
+  public readonly region: string;
+
+  private readonly secretAccessKey: string;
+
+  constructor({
+    accessKeyId,
+    bucket,
+    endpoint,
+    prefix = "",
+    region = "us-east-1",
+    secretAccessKey,
+  }: {
+    accessKeyId: string;
+    bucket: string;
+    endpoint: string;
+    prefix?: string;
+    region?: string;
+    secretAccessKey: string;
+  }) {
+    super();
+    this.accessKeyId = accessKeyId;
+    this.bucket = bucket;
+    this.endpoint = new URL(endpoint);
+    this.prefix = prefix;
+    this.region = region;
+    this.secretAccessKey = secretAccessKey;
+  }
+
+  public async put(key: string, data: Buffer) {
+    const res = await this.request({ body: data, key, method: "PUT" });
+    this.throwIfFailed(res, `put blob ${key}`);
+  }
+
+  public async get(key: string): Promise<Buffer> {
+    const res = await this.request({ key, method: "GET" });
+    if (res.statusCode === 404) {
+      throw new Error(`Blob ${key} does not exist`);
+    }
+    this.throwIfFailed(res, `get blob ${key}`);
+    return res.body;
+  }
+
+  public async has(key: string): Promise<boolean> {
+    const res = await this.request({ key, method: "HEAD" });
+    if (res.statusCode === 404) {
+      return false;
+    }
+    this.throwIfFailed(res, `check blob ${key}`);
+    return true;
+  }
+
+  public async size(key: string): Promise<number> {
+    const res = await this.request({ key, method: "HEAD" });
+    if (res.statusCode === 404) {
+      throw new Error(`Blob ${key} does not exist`);
+    }
+    this.throwIfFailed(res, `get size of blob ${key}`);
+    return parseInt(res.headers["content-length"] as string, 10);
+  }
+
+  public async del(key: string) {
+    const res = await this.request({ key, method: "DELETE" });
+    if (res.statusCode !== 404) {
+      this.throwIfFailed(res, `delete blob ${key}`);
+    }
+  }
+
+  public async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const query: { [key: string]: string } = {};
+      query["list-type"] = "2";
+      query.prefix = `${this.prefix}${prefix}`;
+      if (continuationToken) {
+        query["continuation-token"] = continuationToken;
+      }
+      const res = await this.request({ method: "GET", query });
+      this.throwIfFailed(res, `list blobs ${prefix}`);
+      const xml = res.body.toString();
+      for (const [, key] of this.matchAll(xml, /<Key>([^<]*)<\/Key>/g)) {
+        keys.push(this.unescapeXml(key).slice(this.prefix.length));
+      }
+      const [
+        ,
+        token,
+      ] = /<NextContinuationToken>([^<]*)<\/NextContinuationToken>/.exec(
+        xml,
+      ) || [undefined, undefined];
+      continuationToken = token && this.unescapeXml(token);
+    } while (continuationToken);
+    return keys;
+  }
+
+  /**
+   * Computes the AWS Signature Version 4 `Authorization` header of a
+   * request, signing all the given headers.
+   */
+  public sign({
+    amzDate,
+    canonicalQuery,
+    canonicalUri,
+    headers,
+    method,
+  }: {
+    amzDate: string;
+    canonicalQuery: string;
+    canonicalUri: string;
+    headers: { [key: string]: string };
+    method: string;
+  }): string {
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      canonicalQuery,
+      ...signedHeaders.map((h) => `${h}:${headers[h].trim()}`),
+      "",
+      signedHeaders.join(";"),
+      headers["x-amz-content-sha256"],
+    ].join("\n");
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      this.sha256(canonicalRequest),
+    ].join("\n");
+    const signingKey = [date, this.region, "s3", "aws4_request"].reduce(
+      (k: Buffer | string, data) => this.hmac(k, data),
+      `AWS4${this.secretAccessKey}`,
+    );
+    const signature = this.hmac(signingKey, stringToSign).toString("hex");
+    return `AWS4-HMAC-SHA256 Credential=${
+      this.accessKeyId
+    }/${scope}, SignedHeaders=${signedHeaders.join(
+      ";",
+    )}, Signature=${signature}`;
+  }
+
+  private async request({
+    body = Buffer.alloc(0),
+    key,
+    method,
+    query = {},
+  }: {
+    body?: Buffer;
+    key?: string;
+    method: string;
+    query?: { [key: string]: string };
+  }): Promise<{
+    body: Buffer;
+    headers: http.IncomingHttpHeaders;
+    statusCode: number;
+  }> {
+    const basePath = this.endpoint.pathname.replace(/\/$/, "");
+    const objectPath =
+      key === undefined
+        ? `/${this.bucket}`
+        : `/${this.bucket}/${`${this.prefix}${key}`
+            .split("/")
+            .map((s) => this.encode(s))
+            .join("/")}`;
+    const canonicalUri = `${basePath}${objectPath}`;
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((k) => `${this.encode(k)}=${this.encode(query[k])}`)
+      .join("&");
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const headers: { [key: string]: string } = {};
+    headers.host = this.endpoint.host;
+    headers["x-amz-content-sha256"] = this.sha256(body);
+    headers["x-amz-date"] = amzDate;
+    headers.authorization = this.sign({
+      amzDate,
+      canonicalQuery,
+      canonicalUri,
+      headers,
+      method,
+    });
+    headers["content-length"] = `${body.length}`;
+
+    const client = this.endpoint.protocol === "https:" ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = client.request(
+        {
+          headers,
+          hostname: this.endpoint.hostname,
+          method,
+          path: canonicalQuery
+            ? `${canonicalUri}?${canonicalQuery}`
+            : canonicalUri,
+          port: this.endpoint.port,
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on("data", (chunk) => chunks.push(chunk));
+          res.on("error", reject);
+          res.on("end", () =>
+            resolve({
+              body: Buffer.concat(chunks),
+              headers: res.headers,
+              statusCode: res.statusCode,
+            }),
+          );
+        },
+      );
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+
+  private throwIfFailed(
+    res: { body: Buffer; statusCode: number },
+    action: string,
+  ) {
+    if (res.statusCode < 200 || res.statusCode >= 300) {
+      throw new Error(
+        `Failed to ${action} [HTTP ${res.statusCode}] ${res.body.toString()}`,
+      );
+    }
+  }
+
+  private sha256(data: Buffer | string): string {
+    return crypto
+      .createHash("sha256")
+      .update(data)
+      .digest("hex");
+  }
+
+  private hmac(key: Buffer | string, data: string): Buffer {
+    return crypto
+      .createHmac("sha256", key)
+      .update(data)
+      .digest();
+  }
+
+  private encode(s: string): string {
+    return encodeURIComponent(s).replace(
+      /[!'()*]/g,
+      (c) =>
+        `%${c
+          .charCodeAt(0)
+          .toString(16)
+          .toUpperCase()}`,
+    );
+  }
+
+  private unescapeXml(s: string): string {
+    return s
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, `"`)
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+  }
+
+  private matchAll(s: string, re: RegExp): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    let match = re.exec(s);
+    while (match) {
+      matches.push(match);
+      match = re.exec(s);
+    }
+    return matches;
+  }
+}
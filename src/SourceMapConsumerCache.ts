@@ -0,0 +1,156 @@
+import { SourceMapConsumer } from "source-map";
+
+interface CacheEntry {
+  consumer: Promise<SourceMapConsumer>;
+  evicted: boolean;
+  refs: number;
+  size?: number;
+}
+
+/**
+ * Consumer of the cache, to be released once done with.
+ */
+export interface SourceMapConsumerHandle {
+  consumer: SourceMapConsumer;
+  release: () => void;
+}
+
+/**
+ * Least recently used cache of parsed source maps, keyed by bundle id and
+ * bounded by the total size of the source maps it contains.
+ *
+ * Consumers are reference counted: an evicted consumer is only destroyed
+ * once all the requests using it have released it. Concurrent requests for
+ * a source map that is being loaded share the same consumer.
+ */
+export class SourceMapConsumerCache {
+  public evictions = 0;
+  public hits = 0;
+  public misses = 0;
+  public size = 0;
+
+  private readonly entries: Map<string, CacheEntry> = new Map();
+
+  /**
+   * @param maxSize Maximum total size in bytes of the cached source maps,
+   * -1 to disable the cache.
+   */
+  constructor(public readonly maxSize: number) {}
+
+  /**
+   * Gets the consumer of a bundle source map, loading it on cache miss.
+   */
+  public async acquire(
+    key: string,
+    load: () => Promise<{ consumer: SourceMapConsumer; size: number }>,
+  ): Promise<SourceMapConsumerHandle> {
+    let entry = this.entries.get(key);
+    if (entry) {
+      this.hits++;
+      // Map iteration order is insertion order: move the entry last
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    } else {
+      this.misses++;
+      entry = this.createEntry(key, load());
+    }
+    const acquired = entry;
+    acquired.refs++;
+    let consumer: SourceMapConsumer;
+    try {
+      consumer = await acquired.consumer;
+    } catch (err) {
+      acquired.refs--;
+      throw err;
+    }
+    let released = false;
+    return {
+      consumer,
+      release: () => {
+        if (!released) {
+          released = true;
+          acquired.refs--;
+          this.destroyIfUnused(acquired);
+        }
+      },
+    };
+  }
+
+  /**
+   * Removes the consumer of a bundle source map from the cache, for example
+   * once the bundle is deleted.
+   */
+  public delete(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.remove(key, entry);
+    }
+  }
+
+  public getStats() {
+    return {
+      entries: this.entries.size,
+      evictions: this.evictions,
+      hits: this.hits,
+      maxSize: this.maxSize,
+      misses: this.misses,
+      size: this.size,
+    };
+  }
+
+  private createEntry(
+    key: string,
+    loading: Promise<{ consumer: SourceMapConsumer; size: number }>,
+  ): CacheEntry {
+    const entry: CacheEntry = {
+      consumer: loading.then(({ consumer }) => consumer),
+      evicted: false,
+      refs: 0,
+    };
+    this.entries.set(key, entry);
+    loading.then(
+      ({ size }) => {
+        entry.size = size;
+        if (!entry.evicted) {
+          this.size += size;
+          this.evict();
+        }
+      },
+      () => {
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      },
+    );
+    return entry;
+  }
+
+  /**
+   * Evicts the least recently used source maps until the cache fits in its
+   * maximum size. Source maps still being loaded are not evicted.
+   */
+  private evict() {
+    for (const [key, entry] of this.entries) {
+      if (this.size <= this.maxSize) {
+        break;
+      }
+      if (entry.size !== undefined) {
+        this.remove(key, entry);
+        this.evictions++;
+      }
+    }
+  }
+
+  private remove(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    entry.evicted = true;
+    this.size -= entry.size || 0;
+    this.destroyIfUnused(entry);
+  }
+
+  private destroyIfUnused(entry: CacheEntry) {
+    if (entry.evicted && entry.refs === 0) {
+      entry.consumer.then((consumer) => consumer.destroy(), () => undefined);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/// <reference types="../types/index" />
+
+import { BlobStore } from "./BlobStore";
+import { FsBlobStore } from "./FsBlobStore";
+import { MemoryBlobStore } from "./MemoryBlobStore";
+import { S3BlobStore } from "./S3BlobStore";
+
+export function createBlobStore(
+  config: BlobStoreConfig,
+  paths: BundleStoreServerPaths,
+): BlobStore {
+  switch (config.type) {
+    case "fs":
+      return new FsBlobStore({
+        assets: paths.assets,
+        bundles: paths.bundles,
+        sourcemaps: paths.sourcemaps,
+      });
+    case "memory":
+      return new MemoryBlobStore();
+    case "s3":
+      return new S3BlobStore(config);
+    default:
+      throw new Error(`Unsupported blob store ${(config as any).type}`);
+  }
+}
@@ -0,0 +1,26 @@
+/// <reference types="../types/index" />
+
+import { BundleStoreDb } from "./BundleStoreDb";
+import { JsonBundleStoreDb } from "./JsonBundleStoreDb";
+import { LogBundleStoreDb } from "./LogBundleStoreDb";
+
+export function createBundleStoreDb({
+  backend = "json",
+  dbPath,
+  seed,
+  signingSecret,
+}: {
+  backend?: DbBackend;
+  dbPath: string;
+  seed?: Db;
+  signingSecret?: string;
+}): BundleStoreDb {
+  switch (backend) {
+    case "json":
+      return new JsonBundleStoreDb({ dbPath, seed, signingSecret });
+    case "log":
+      return new LogBundleStoreDb({ dbPath, seed, signingSecret });
+    default:
+      throw new Error(`Unsupported database backend ${backend}`);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Creates an excerpt of a source file around a position, pointing at the
+ * position with a caret, in the same format as the code frames of Metro
+ * (without colors). `line` is 1-based and `column` is 0-based, like the
+ * positions of source maps.
+ *
+ *   39 |     const x = null;
+ * > 40 |     x.foo();
+ *      |       ^
+ *   41 |   }
+ */
+export function createCodeFrame(
+  source: string,
+  { column, line }: { column: number; line: number },
+  { linesAbove = 2, linesBelow = 3 } = {},
+): string {
+  const lines = source.split(/\r\n|[\n\r\u2028\u2029]/);
+  const start = Math.max(line - linesAbove, 1);
+  const end = Math.min(line + linesBelow, lines.length);
+  const gutterWidth = String(end).length;
+  const frame: string[] = [];
+  for (let lineNumber = start; lineNumber <= end; lineNumber++) {
+    const text = lines[lineNumber - 1];
+    const gutter = ` ${String(lineNumber).padStart(gutterWidth)} |`;
+    frame.push(
+      `${lineNumber === line ? ">" : " "}${gutter}${text ? ` ${text}` : ""}`,
+    );
+    if (lineNumber === line) {
+      const spacing = text.slice(0, column).replace(/[^\t]/g, " ");
+      frame.push(` ${gutter.replace(/\d/g, " ")} ${spacing}^`);
+    }
+  }
+  return frame.join("\n");
+}
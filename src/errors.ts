@@ -0,0 +1,96 @@
+export interface ErrorOptions {
+  /**
+   * Machine readable error code, defaulting to the one of the error class.
+   */
+  code?: string;
+  /**
+   * Additional information about the error, such as the ids of the
+   * resources involved.
+   */
+  details?: any;
+}
+
+/**
+ * Base class of the errors surfaced to the clients of the server.
+ * Each error carries the HTTP status code and the machine readable error
+ * code of the JSON error body `{ code, message, details }` sent back by
+ * the server error handler.
+ */
+export class BundleStoreError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: any,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  public toJSON() {
+    return { code: this.code, details: this.details, message: this.message };
+  }
+}
+
+/**
+ * The request is malformed or its content is invalid.
+ */
+export class ValidationError extends BundleStoreError {
+  constructor(
+    message: string,
+    { code = "VALIDATION_FAILED", details }: ErrorOptions = {},
+  ) {
+    super(400, code, message, details);
+  }
+}
+
+/**
+ * The request content exceeds a size limit configured on the server.
+ */
+export class PayloadTooLargeError extends BundleStoreError {
+  constructor(
+    message: string,
+    { code = "PAYLOAD_TOO_LARGE", details }: ErrorOptions = {},
+  ) {
+    super(413, code, message, details);
+  }
+}
+
+/**
+ * The credentials of the request (access key, access token, signed url or
+ * admin token) are invalid, expired or do not grant access to the resource.
+ */
+export class UnauthorizedError extends BundleStoreError {
+  constructor(
+    message: string,
+    { code = "UNAUTHORIZED", details }: ErrorOptions = {},
+  ) {
+    super(403, code, message, details);
+  }
+}
+
+/**
+ * The requested resource (store, bundle, label, access key...) does not
+ * exist.
+ */
+export class NotFoundError extends BundleStoreError {
+  constructor(
+    message: string,
+    { code = "NOT_FOUND", details }: ErrorOptions = {},
+  ) {
+    super(404, code, message, details);
+  }
+}
+
+/**
+ * The request conflicts with the current state of the resource, for
+ * example when creating a store that already exists.
+ */
+export class ConflictError extends BundleStoreError {
+  constructor(
+    message: string,
+    { code = "CONFLICT", details }: ErrorOptions = {},
+  ) {
+    super(409, code, message, details);
+  }
+}
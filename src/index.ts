@@ -1,4 +1,6 @@
 #!/usr/bin/env node
+/// <reference types="../types/index" />
+
 import program from "commander";
 import path from "path";
 import { BundleStoreServer } from "./BundleStoreServer";
@@ -6,21 +8,133 @@ import { BundleStoreServer } from "./BundleStoreServer";
 const DEFAULT_STORE_PATH = path.join(process.cwd(), "store");
 const DEFAULT_PORT = 3000;
 const DEFAULT_MAX_BUNDLES = -1;
+const DEFAULT_MAX_SIZE = -1;
+const DEFAULT_MAX_ASSETS_ENTRIES = 10000;
+const DEFAULT_MAX_ASSETS_SIZE = 256 * 1024 * 1024;
+const DEFAULT_RETENTION_SWEEP_INTERVAL = 60 * 60 * 1000;
+const DEFAULT_ASSET_GC_INTERVAL = 24 * 60 * 60 * 1000;
+const DEFAULT_SOURCEMAP_CACHE_SIZE = 256 * 1024 * 1024;
+const DEFAULT_DB_BACKEND = "json";
+const DEFAULT_BLOB_STORE = "fs";
+
+const parseNumber = (value: string) => parseInt(value, 10);
+const collect = (value: string, previous: string[] = []) => [
+  ...previous,
+  value,
+];
 
 program
+  .option(
+    "--admin-token <string>",
+    "server admin token (defaults to ERN_BUNDLE_STORE_ADMIN_TOKEN env var)",
+  )
+  .option(
+    "--asset-gc-interval <number>",
+    "interval in milliseconds between unused assets collections (-1 to disable)",
+    parseNumber,
+    DEFAULT_ASSET_GC_INTERVAL,
+  )
+  .option(
+    "--blob-store <string>",
+    "blob store driver (fs|s3)",
+    DEFAULT_BLOB_STORE,
+  )
+  .option(
+    "--collapse-frame-pattern <regex>",
+    "regular expression matching the files of the symbolicated frames to collapse (repeatable)",
+    collect,
+  )
+  .option(
+    "--db-backend <string>",
+    "database backend (json|log)",
+    DEFAULT_DB_BACKEND,
+  )
   .option("--host <string>", "sever host/ip")
+  .option(
+    "--max-assets-entries <number>",
+    "maximum number of files of uploaded assets zip files",
+    parseNumber,
+    DEFAULT_MAX_ASSETS_ENTRIES,
+  )
+  .option(
+    "--max-assets-size <number>",
+    "maximum uncompressed size of uploaded assets zip files in bytes",
+    parseNumber,
+    DEFAULT_MAX_ASSETS_SIZE,
+  )
+  .option(
+    "--max-bundle-size <number>",
+    "maximum size of uploaded bundles in bytes",
+    parseNumber,
+    DEFAULT_MAX_SIZE,
+  )
   .option(
     "--max-bundles <number>",
     "maximum number of bundles per store",
+    parseNumber,
     DEFAULT_MAX_BUNDLES,
   )
+  .option(
+    "--max-sourcemap-size <number>",
+    "maximum size of uploaded source maps in bytes",
+    parseNumber,
+    DEFAULT_MAX_SIZE,
+  )
   .option("--port <number>", "server port", DEFAULT_PORT)
+  .option(
+    "--retention-sweep-interval <number>",
+    "interval in milliseconds between stores retention sweeps (-1 to disable)",
+    parseNumber,
+    DEFAULT_RETENTION_SWEEP_INTERVAL,
+  )
+  .option("--s3-bucket <string>", "s3 bucket (s3 blob store)")
+  .option("--s3-endpoint <string>", "s3 endpoint url (s3 blob store)")
+  .option("--s3-prefix <string>", "s3 objects keys prefix (s3 blob store)")
+  .option("--s3-region <string>", "s3 region (s3 blob store)")
+  .option(
+    "--sourcemap-cache-size <number>",
+    "maximum size of the source maps cached in memory in bytes (-1 to disable)",
+    parseNumber,
+    DEFAULT_SOURCEMAP_CACHE_SIZE,
+  )
+  .option(
+    "--signing-secret <string>",
+    "secret signing the signed urls and access tokens (defaults to ERN_BUNDLE_STORE_SIGNING_SECRET env var)",
+  )
   .option("--store-path <string>", "store path", DEFAULT_STORE_PATH)
   .parse(process.argv);
 
+const blobStore: BlobStoreConfig =
+  program.blobStore === "s3"
+    ? {
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        bucket: program.s3Bucket,
+        endpoint: program.s3Endpoint,
+        prefix: program.s3Prefix,
+        region: program.s3Region,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+        type: "s3",
+      }
+    : { type: program.blobStore || DEFAULT_BLOB_STORE };
+
 new BundleStoreServer({
+  adminToken: program.adminToken || process.env.ERN_BUNDLE_STORE_ADMIN_TOKEN,
+  assetGcInterval: program.assetGcInterval || DEFAULT_ASSET_GC_INTERVAL,
+  blobStore,
+  collapseFramePatterns: program.collapseFramePattern,
+  dbBackend: program.dbBackend || DEFAULT_DB_BACKEND,
   host: program.host,
+  maxAssetsEntries: program.maxAssetsEntries || DEFAULT_MAX_ASSETS_ENTRIES,
+  maxAssetsSize: program.maxAssetsSize || DEFAULT_MAX_ASSETS_SIZE,
+  maxBundleSize: program.maxBundleSize || DEFAULT_MAX_SIZE,
   maxBundles: program.maxBundles || DEFAULT_MAX_BUNDLES,
+  maxSourceMapSize: program.maxSourcemapSize || DEFAULT_MAX_SIZE,
   port: program.port || DEFAULT_PORT,
+  retentionSweepInterval:
+    program.retentionSweepInterval || DEFAULT_RETENTION_SWEEP_INTERVAL,
   rootPath: program.storePath,
+  signingSecret:
+    program.signingSecret || process.env.ERN_BUNDLE_STORE_SIGNING_SECRET,
+  sourceMapCacheSize:
+    program.sourcemapCacheSize || DEFAULT_SOURCEMAP_CACHE_SIZE,
 }).start();
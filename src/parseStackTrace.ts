@@ -0,0 +1,116 @@
+const UNKNOWN_METHOD = "<unknown>";
+
+// Prefixes of logcat lines, in threadtime and brief formats
+const LOGCAT_PREFIXES = [
+  /^\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}\.\d+\s+\d+\s+\d+\s+[VDIWEFA]\s+[^:]*:\s?/,
+  /^[VDIWEFA]\/[^(:]*(?:\(\s*\d+\))?:\s?/,
+];
+
+// Markers of the lines reporting the JS exception in Android and iOS logs
+const EXCEPTION_MARKERS = ["JavascriptException: ", "Unhandled JS Exception: "];
+
+// Native frames of iOS crash logs: `3   MyApp   0x0000000102f0c8b4 ...`
+const IOS_NATIVE_FRAME = /^\d+\s+\S+\s+0x[0-9a-f]+\s/i;
+
+// JSC: `onPress@http://localhost:8081/index.bundle:12:34`, `onPress@12:34`
+const JSC_FRAME = /^(?:([^@]*)@)?(?:(\S*):)?(\d+):(\d+)$/;
+const JSC_NATIVE_FRAME = /^(?:([^@]*)@)?\[native code\]$/;
+
+// V8 and Hermes: `at onPress (index.android.bundle:1:2345)`. The file of
+// Hermes bytecode frames keeps its `address at ` prefix, which tells them
+// apart from JS frames when symbolicating them.
+const V8_FRAME = /^at (.+?) \((.*)\)$/;
+const V8_ANONYMOUS_FRAME = /^at (\S*):(\d+):(\d+)$/;
+const POSITION = /^(.*?):(\d+):(\d+)$/;
+
+function createFrame(
+  methodName: string | undefined,
+  file?: string,
+  lineNumber?: string,
+  column?: string,
+): StackFrame {
+  const frame: StackFrame = { methodName: methodName || UNKNOWN_METHOD };
+  if (file) {
+    frame.file = file;
+  }
+  if (lineNumber && column) {
+    frame.column = Number(column);
+    frame.lineNumber = Number(lineNumber);
+  }
+  return frame;
+}
+
+function parseFrame(line: string): StackFrame | undefined {
+  let match = JSC_NATIVE_FRAME.exec(line);
+  if (match) {
+    return createFrame(match[1]);
+  }
+  match = JSC_FRAME.exec(line);
+  if (match) {
+    return createFrame(match[1], match[2], match[3], match[4]);
+  }
+  match = V8_FRAME.exec(line);
+  if (match) {
+    const position = POSITION.exec(match[2]);
+    return position
+      ? createFrame(match[1], position[1], position[2], position[3])
+      : createFrame(match[1]);
+  }
+  match = V8_ANONYMOUS_FRAME.exec(line);
+  if (match) {
+    return createFrame(undefined, match[1], match[2], match[3]);
+  }
+  return undefined;
+}
+
+/**
+ * Parses the JS stack trace of a crash log. Supports the stack traces of
+ * JSC and Hermes, as printed by React Native in Android logcat (with or
+ * without the logcat line prefixes) and in iOS crash logs. The lines
+ * preceding the first frame make up the error message, and the lines
+ * following the frames, such as native frames, are ignored.
+ */
+export function parseStackTrace(text: string): ParsedStackTrace {
+  let messageLines: string[] = [];
+  const stack: StackFrame[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = LOGCAT_PREFIXES.reduce((l, re) => l.replace(re, ""), rawLine);
+    line = line.trim();
+    if (!line || IOS_NATIVE_FRAME.test(line)) {
+      continue;
+    }
+    const frame = parseFrame(line);
+    if (frame) {
+      stack.push(frame);
+    } else if (stack.length === 0) {
+      const marker = EXCEPTION_MARKERS.find((m) => line.includes(m));
+      if (marker) {
+        // Only keep the exception in the message, not the log preamble
+        messageLines = [line.slice(line.lastIndexOf(marker) + marker.length)];
+      } else {
+        messageLines.push(line);
+      }
+    }
+  }
+  const message = messageLines
+    .join("\n")
+    .replace(/(?:, js engine: \w+)?, stack:$/, "");
+  return { message, stack };
+}
+
+/**
+ * Renders a stack trace as text, in the same format as the stack traces
+ * of V8 and Hermes.
+ */
+export function formatStackTrace({ message, stack }: ParsedStackTrace) {
+  const lines = stack.map((frame) => {
+    if (!frame.file && !frame.lineNumber) {
+      return `    at ${frame.methodName} (native)`;
+    }
+    const position = frame.lineNumber
+      ? `:${frame.lineNumber}:${frame.column}`
+      : "";
+    return `    at ${frame.methodName} (${frame.file || ""}${position})`;
+  });
+  return [message, ...lines].filter((line) => line).join("\n");
+}
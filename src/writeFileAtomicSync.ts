@@ -0,0 +1,19 @@
+import fs from "fs";
+
+/**
+ * Writes data to a file so that the file either contains its previous
+ * content or the new one, even if the process crashes midway.
+ * The data is first written and flushed to a temporary file that is then
+ * renamed over the target file.
+ */
+export function writeFileAtomicSync(filePath: string, data: string) {
+  const tmpPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tmpPath, "w");
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmpPath, filePath);
+}
@@ -1,573 +1,1344 @@
 /// <reference types="../types/index" />
 
 import { expect } from "chai";
-import fs from "fs";
 import "mocha";
 import path from "path";
 import tmp from "tmp";
 import { BundleStoreDb } from "../src/BundleStoreDb";
+import { createBundleStoreDb } from "../src/createBundleStoreDb";
+import { ConflictError, NotFoundError, ValidationError } from "../src/errors";
 
-describe("BundleStoreDb", () => {
-  tmp.setGracefulCleanup();
-
-  const androidBundleA: Bundle = {
-    id: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
-    platform: "android",
-    sourceMap: "e4b87a58-7cb1-408f-a30f-1ddef2e1b972",
-    timestamp: 1566351493255,
-  };
-
-  const androidBundleB: Bundle = {
-    id: "de0f2684-b070-4560-a01b-1a3fbc33d735",
-    platform: "android",
-    sourceMap: "24f0e611-5af7-49d9-bb11-5fa055c3c460",
-    timestamp: 1566576535136,
-  };
-
-  function parseJsonFile(file: string): any {
-    const f = fs.readFileSync(file).toString();
-    return JSON.parse(f);
-  }
-
-  function createDb(seed?: Db): { db: BundleStoreDb; dbPath: string } {
-    const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
-    const dbPath = path.join(tmpDir, "db.json");
-    return { db: new BundleStoreDb({ dbPath, seed }), dbPath };
-  }
-
-  describe("constructor", () => {
-    it("should create db file if it does not exit", () => {
-      const { dbPath } = createDb();
-      expect(fs.existsSync(dbPath)).true;
-    });
+const backends: DbBackend[] = ["json", "log"];
 
-    it("should create db with default seed", () => {
-      const { dbPath } = createDb();
-      const db = parseJsonFile(dbPath);
-      expect(db).deep.equal({
-        assets: {},
-        stores: {},
-      });
-    });
+for (const backend of backends) {
+  describe(`BundleStoreDb [${backend} backend]`, () => {
+    tmp.setGracefulCleanup();
 
-    it("should create db with custom seed", () => {
-      const seed = {
-        assets: {
-          "47ce6e77f039020ee2e76a10c1e988e9": {},
-        },
-        stores: {},
-      };
-      const { dbPath } = createDb(seed);
-      const db = parseJsonFile(dbPath);
-      expect(db).deep.equal(seed);
-    });
+    const androidBundleA: Bundle = {
+      id: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+      platform: "android",
+      sourceMap: "e4b87a58-7cb1-408f-a30f-1ddef2e1b972",
+      timestamp: 1566351493255,
+    };
 
-    it("should not overwrite existing db file", () => {
-      const dbData = {
-        assets: {
-          "47ce6e77f039020ee2e76a10c1e988e9": {},
-        },
-        stores: {},
-      };
+    const androidBundleB: Bundle = {
+      id: "de0f2684-b070-4560-a01b-1a3fbc33d735",
+      platform: "android",
+      sourceMap: "24f0e611-5af7-49d9-bb11-5fa055c3c460",
+      timestamp: 1566576535136,
+    };
+
+    function createDb(seed?: Db): { db: BundleStoreDb; dbPath: string } {
       const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
-      const dbPath = path.join(tmpDir, "db.json");
-      fs.writeFileSync(dbPath, JSON.stringify(dbData));
-      createDb();
-      const db = parseJsonFile(dbPath);
-      expect(db).deep.equal(dbData);
-    });
-  });
+      const dbPath = path.join(tmpDir, `db.${backend}`);
+      return { db: createBundleStoreDb({ backend, dbPath, seed }), dbPath };
+    }
 
-  describe("isStoreEmtpy", () => {
-    it("should throw if the store does not exist", () => {
-      const { db } = createDb();
-      expect(() => db.isStoreEmpty({ storeId: "dummy" })).to.throw();
+    describe("persistence", () => {
+      it("should persist the mutations in the database file", () => {
+        const { db, dbPath } = createDb();
+        db.createStore("dummy");
+        db.addBundle({ bundle: androidBundleA, storeId: "dummy" });
+        db.addBundle({ bundle: androidBundleB, storeId: "dummy" });
+        db.delBundle({ bundleId: androidBundleA.id, storeId: "dummy" });
+        db.createAssets(["47ce6e77f039020ee2e76a10c1e988e9"]);
+        const reopenedDb = createBundleStoreDb({ backend, dbPath });
+        expect(reopenedDb.data).deep.equal(db.data);
+      });
     });
 
-    it("should return true if the store is emtpy", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+    describe("isStoreEmtpy", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() => db.isStoreEmpty({ storeId: "dummy" })).to.throw();
+      });
+
+      it("should return true if the store is emtpy", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(db.isStoreEmpty({ storeId: "dummy" })).true;
       });
-      expect(db.isStoreEmpty({ storeId: "dummy" })).true;
-    });
 
-    it("should return false if the store is not emtpy", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [
-              {
-                id: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
-                platform: "android",
-                sourceMap: "e4b87a58-7cb1-408f-a30f-1ddef2e1b972",
-                timestamp: 1566351493255,
-              },
-            ],
-            id: "dummy",
+      it("should return false if the store is not emtpy", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [
+                {
+                  id: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+                  platform: "android",
+                  sourceMap: "e4b87a58-7cb1-408f-a30f-1ddef2e1b972",
+                  timestamp: 1566351493255,
+                },
+              ],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(db.isStoreEmpty({ storeId: "dummy" })).false;
+      });
+
+      it("should return true if the store is empty for given platform", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA],
+              id: "dummy",
+            },
+          },
+        });
+        expect(db.isStoreEmpty({ storeId: "dummy", platform: "ios" })).true;
+      });
+
+      it("should return false if the store is not empty for given platform", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA],
+              id: "dummy",
+            },
+          },
+        });
+        expect(db.isStoreEmpty({ storeId: "dummy", platform: "android" }))
+          .false;
       });
-      expect(db.isStoreEmpty({ storeId: "dummy" })).false;
     });
 
-    it("should return true if the store is empty for given platform", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [androidBundleA],
-            id: "dummy",
+    describe("hasBundle", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() =>
+          db.hasBundle({
+            bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+            storeId: "dummy",
+          }),
+        ).to.throw();
+      });
+
+      it("should return false if the bundle does not exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(
+          db.hasBundle({
+            bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+            storeId: "dummy",
+          }),
+        ).false;
+      });
+
+      it("should return true if the bundle exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA],
+              id: "dummy",
+            },
+          },
+        });
+        expect(
+          db.hasBundle({
+            bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+            storeId: "dummy",
+          }),
+        ).true;
       });
-      expect(db.isStoreEmpty({ storeId: "dummy", platform: "ios" })).true;
     });
 
-    it("should return false if the store is not empty for given platform", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [androidBundleA],
-            id: "dummy",
+    describe("getBundle", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() =>
+          db.getBundle({
+            bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+            storeId: "dummy",
+          }),
+        ).to.throw();
+      });
+
+      it("should throw if the bundle does not exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(() =>
+          db.getBundle({
+            bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+            storeId: "dummy",
+          }),
+        ).to.throw(NotFoundError);
+      });
+
+      it("should return the bundle if it exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA],
+              id: "dummy",
+            },
+          },
+        });
+        expect(
+          db.getBundle({
+            bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+            storeId: "dummy",
+          }),
+        ).deep.equal(androidBundleA);
       });
-      expect(db.isStoreEmpty({ storeId: "dummy", platform: "android" })).false;
     });
-  });
 
-  describe("hasBundle", () => {
-    it("should throw if the store does not exist", () => {
-      const { db } = createDb();
-      expect(() =>
-        db.hasBundle({
-          bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
-          storeId: "dummy",
-        }),
-      ).to.throw();
+    describe("getBundles", () => {
+      const taggedBundle: Bundle = {
+        ...androidBundleB,
+        metadata: {
+          branch: "master",
+          commit: "2f8b3a1",
+          tags: { env: "staging" },
+          version: "1.2.0",
+        },
+      };
+      const iosBundle: Bundle = {
+        id: "a1c3f5e2-2b4d-4f0a-9c1e-7d6b8a9f0e11",
+        platform: "ios",
+        sourceMap: "b2d4e6f8-3c5e-4a1b-8d2f-9e0a1b2c3d4e",
+        timestamp: 1566576535137,
+      };
+
+      function createSeededDb() {
+        return createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA, taggedBundle, iosBundle],
+              id: "dummy",
+            },
+          },
+        }).db;
+      }
+
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() => db.getBundles({ storeId: "dummy" })).to.throw();
+      });
+
+      it("should return all bundles if no filter is given", () => {
+        const db = createSeededDb();
+        expect(db.getBundles({ storeId: "dummy" })).deep.equal([
+          androidBundleA,
+          taggedBundle,
+          iosBundle,
+        ]);
+      });
+
+      it("should return the bundles of the given platform", () => {
+        const db = createSeededDb();
+        expect(db.getBundles({ platform: "ios", storeId: "dummy" })).deep.equal(
+          [iosBundle],
+        );
+      });
+
+      it("should return the bundles matching the metadata filter", () => {
+        const db = createSeededDb();
+        expect(
+          db.getBundles({
+            filter: { branch: "master", version: "1.2.0" },
+            storeId: "dummy",
+          }),
+        ).deep.equal([taggedBundle]);
+      });
+
+      it("should return the bundles matching the tags filter", () => {
+        const db = createSeededDb();
+        expect(
+          db.getBundles({
+            filter: { tags: { env: "staging" } },
+            storeId: "dummy",
+          }),
+        ).deep.equal([taggedBundle]);
+      });
+
+      it("should return no bundle if none match the filter", () => {
+        const db = createSeededDb();
+        expect(
+          db.getBundles({
+            filter: { tags: { env: "production" } },
+            storeId: "dummy",
+          }),
+        ).deep.equal([]);
+      });
     });
 
-    it("should return false if the bundle does not exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+    describe("getLatestBundle", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() =>
+          db.getLatestBundle({
+            platform: "android",
+            storeId: "dummy",
+          }),
+        ).to.throw();
+      });
+
+      it("should throw if there is no bundle in store", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(() =>
+          db.getLatestBundle({
+            platform: "android",
+            storeId: "dummy",
+          }),
+        ).to.throw();
+      });
+
+      it("should return the latest bundle in store", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA, androidBundleB],
+              id: "dummy",
+            },
+          },
+        });
+        expect(
+          db.getLatestBundle({ platform: "android", storeId: "dummy" }),
+        ).to.deep.equal(androidBundleB);
       });
-      expect(
-        db.hasBundle({
-          bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
-          storeId: "dummy",
-        }),
-      ).false;
     });
 
-    it("should return true if the bundle exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [androidBundleA],
-            id: "dummy",
+    describe("resolveBundle", () => {
+      function createSeededDb() {
+        return createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA, androidBundleB],
+              id: "dummy",
+              labels: [
+                {
+                  bundleId: androidBundleA.id,
+                  name: "qa",
+                  platform: "android",
+                  timestamp: 1566576535200,
+                },
+              ],
+            },
           },
-        },
+        }).db;
+      }
+
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() =>
+          db.resolveBundle({
+            bundleRef: "latest",
+            platform: "android",
+            storeId: "dummy",
+          }),
+        ).to.throw();
+      });
+
+      it("should resolve latest to the latest bundle", () => {
+        const db = createSeededDb();
+        expect(
+          db.resolveBundle({
+            bundleRef: "latest",
+            platform: "android",
+            storeId: "dummy",
+          }),
+        ).deep.equal(androidBundleB);
+      });
+
+      it("should resolve a label to the bundle it points to", () => {
+        const db = createSeededDb();
+        expect(
+          db.resolveBundle({
+            bundleRef: "qa",
+            platform: "android",
+            storeId: "dummy",
+          }),
+        ).deep.equal(androidBundleA);
+      });
+
+      it("should resolve a bundle id before a label of the same name", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA, androidBundleB],
+              id: "dummy",
+              labels: [
+                {
+                  bundleId: androidBundleA.id,
+                  name: androidBundleB.id,
+                  platform: "android",
+                  timestamp: 1566576535200,
+                },
+              ],
+            },
+          },
+        });
+        expect(
+          db.resolveBundle({
+            bundleRef: androidBundleB.id,
+            platform: "android",
+            storeId: "dummy",
+          }),
+        ).deep.equal(androidBundleB);
+      });
+
+      it("should resolve a bundle id to the bundle", () => {
+        const db = createSeededDb();
+        expect(
+          db.resolveBundle({
+            bundleRef: androidBundleB.id,
+            platform: "android",
+            storeId: "dummy",
+          }),
+        ).deep.equal(androidBundleB);
+      });
+
+      it("should throw if the label does not exist for the platform", () => {
+        const db = createSeededDb();
+        expect(() =>
+          db.resolveBundle({
+            bundleRef: "qa",
+            platform: "ios",
+            storeId: "dummy",
+          }),
+        ).to.throw();
       });
-      expect(
-        db.hasBundle({
-          bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
-          storeId: "dummy",
-        }),
-      ).true;
     });
-  });
 
-  describe("getBundle", () => {
-    it("should throw if the store does not exist", () => {
-      const { db } = createDb();
-      expect(() =>
-        db.getBundle({
-          bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
-          storeId: "dummy",
-        }),
-      ).to.throw();
+    describe("addBundle", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() =>
+          db.addBundle({
+            bundle: androidBundleA,
+            storeId: "dummy",
+          }),
+        ).to.throw();
+      });
+
+      it("should add the bundle to the store", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
+          },
+        });
+        db.addBundle({ bundle: androidBundleA, storeId: "dummy" });
+        expect(db.hasBundle({ bundleId: androidBundleA.id, storeId: "dummy" }));
+      });
     });
 
-    it("should throw if the bundle does not exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+    describe("delBundle", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() =>
+          db.delBundle({
+            bundleId: androidBundleA.id,
+            storeId: "dummy",
+          }),
+        ).to.throw();
+      });
+
+      it("should throw if the bundle does not exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA, androidBundleB],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(() =>
+          db.delBundle({
+            bundleId: "f540f429-879b-4425-a587-558b55082960",
+            storeId: "dummy",
+          }),
+        ).to.throw();
       });
-      expect(() =>
-        db.getBundle({
-          bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+
+      it("should delete the bundle", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA, androidBundleB],
+              id: "dummy",
+            },
+          },
+        });
+        db.delBundle({
+          bundleId: androidBundleA.id,
           storeId: "dummy",
-        }),
-      ).to.throw();
-    });
+        });
+        expect(db.hasBundle({ bundleId: androidBundleA.id, storeId: "dummy" }))
+          .false;
+      });
 
-    it("should return the bundle if it exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [androidBundleA],
-            id: "dummy",
+      it("should return the deleted bundle", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA, androidBundleB],
+              id: "dummy",
+            },
           },
-        },
+        });
+        const res = db.delBundle({
+          bundleId: androidBundleA.id,
+          storeId: "dummy",
+        });
+        expect(res).deep.equal(androidBundleA);
       });
-      expect(
-        db.getBundle({
-          bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+
+      it("should throw if the bundle is pinned", () => {
+        const { db } = createDb();
+        db.createStore("dummy");
+        db.addBundle({ bundle: { ...androidBundleA }, storeId: "dummy" });
+        db.setBundlePinned({
+          bundleId: androidBundleA.id,
+          pinned: true,
           storeId: "dummy",
-        }),
-      ).deep.equal(androidBundleA);
-    });
-  });
+        });
+        expect(() =>
+          db.delBundle({ bundleId: androidBundleA.id, storeId: "dummy" }),
+        ).to.throw(ConflictError);
+        expect(db.hasBundle({ bundleId: androidBundleA.id, storeId: "dummy" }))
+          .true;
+      });
 
-  describe("getLatestBundle", () => {
-    it("should throw if the store does not exist", () => {
-      const { db } = createDb();
-      expect(() =>
-        db.getLatestBundle({
-          platform: "android",
+      it("should delete a pinned bundle if forced", () => {
+        const { db } = createDb();
+        db.createStore("dummy");
+        db.addBundle({ bundle: { ...androidBundleA }, storeId: "dummy" });
+        db.setBundlePinned({
+          bundleId: androidBundleA.id,
+          pinned: true,
           storeId: "dummy",
-        }),
-      ).to.throw();
+        });
+        db.delBundle({
+          bundleId: androidBundleA.id,
+          force: true,
+          storeId: "dummy",
+        });
+        expect(db.hasBundle({ bundleId: androidBundleA.id, storeId: "dummy" }))
+          .false;
+      });
     });
 
-    it("should throw if there is no bundle in store", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
-          },
-        },
+    describe("setBundleMetadata", () => {
+      it("should throw if the bundle does not exist", () => {
+        const { db } = createDb();
+        db.createStore("dummy");
+        expect(() =>
+          db.setBundleMetadata({
+            bundleId: androidBundleA.id,
+            metadata: { version: "1.0.0" },
+            storeId: "dummy",
+          }),
+        ).to.throw(NotFoundError);
       });
-      expect(() =>
-        db.getLatestBundle({
-          platform: "android",
+
+      it("should set and remove the bundle metadata", () => {
+        const { db, dbPath } = createDb();
+        db.createStore("dummy");
+        db.addBundle({ bundle: { ...androidBundleA }, storeId: "dummy" });
+        const bundle = db.setBundleMetadata({
+          bundleId: androidBundleA.id,
+          metadata: { version: "1.0.0" },
           storeId: "dummy",
-        }),
-      ).to.throw();
+        });
+        expect(bundle.metadata).deep.equal({ version: "1.0.0" });
+        expect(
+          createBundleStoreDb({ backend, dbPath }).getBundle({
+            bundleId: androidBundleA.id,
+            storeId: "dummy",
+          }).metadata,
+        ).deep.equal({ version: "1.0.0" });
+        expect(
+          db.setBundleMetadata({
+            bundleId: androidBundleA.id,
+            metadata: null,
+            storeId: "dummy",
+          }),
+        ).deep.equal(androidBundleA);
+      });
     });
 
-    it("should return the latest bundle in store", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [androidBundleA, androidBundleB],
-            id: "dummy",
-          },
-        },
+    describe("setBundlePinned", () => {
+      it("should throw if the bundle does not exist", () => {
+        const { db } = createDb();
+        db.createStore("dummy");
+        expect(() =>
+          db.setBundlePinned({
+            bundleId: androidBundleA.id,
+            pinned: true,
+            storeId: "dummy",
+          }),
+        ).to.throw(NotFoundError);
       });
-      expect(
-        db.getLatestBundle({ platform: "android", storeId: "dummy" }),
-      ).to.deep.equal(androidBundleB);
-    });
-  });
 
-  describe("addBundle", () => {
-    it("should throw if the store does not exist", () => {
-      const { db } = createDb();
-      expect(() =>
-        db.addBundle({
-          bundle: androidBundleA,
+      it("should pin and unpin the bundle", () => {
+        const { db, dbPath } = createDb();
+        db.createStore("dummy");
+        db.addBundle({ bundle: { ...androidBundleA }, storeId: "dummy" });
+        const pinned = db.setBundlePinned({
+          bundleId: androidBundleA.id,
+          pinned: true,
           storeId: "dummy",
-        }),
-      ).to.throw();
+        });
+        expect(pinned.pinned).true;
+        expect(
+          createBundleStoreDb({ backend, dbPath }).getBundle({
+            bundleId: androidBundleA.id,
+            storeId: "dummy",
+          }).pinned,
+        ).true;
+        const unpinned = db.setBundlePinned({
+          bundleId: androidBundleA.id,
+          pinned: false,
+          storeId: "dummy",
+        });
+        expect(unpinned).deep.equal(androidBundleA);
+      });
     });
 
-    it("should add the bundle to the store", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+    describe("labels", () => {
+      const qaLabel: Label = {
+        bundleId: androidBundleA.id,
+        name: "qa",
+        platform: "android",
+        timestamp: 1566576535200,
+      };
+
+      function createSeededDb() {
+        return createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [androidBundleA, androidBundleB],
+              id: "dummy",
+              labels: [qaLabel],
+            },
           },
-        },
+        }).db;
+      }
+
+      describe("getLabels", () => {
+        it("should return the labels of the store", () => {
+          const db = createSeededDb();
+          expect(db.getLabels({ storeId: "dummy" })).deep.equal([qaLabel]);
+        });
+
+        it("should return the labels of the given platform", () => {
+          const db = createSeededDb();
+          expect(
+            db.getLabels({ platform: "ios", storeId: "dummy" }),
+          ).deep.equal([]);
+        });
       });
-      db.addBundle({ bundle: androidBundleA, storeId: "dummy" });
-      expect(db.hasBundle({ bundleId: androidBundleA.id, storeId: "dummy" }));
-    });
-  });
 
-  describe("delBundle", () => {
-    it("should throw if the store does not exist", () => {
-      const { db } = createDb();
-      expect(() =>
-        db.delBundle({
-          bundleId: androidBundleA.id,
-          storeId: "dummy",
-        }),
-      ).to.throw();
+      describe("hasLabel", () => {
+        it("should return true if the label exist", () => {
+          const db = createSeededDb();
+          expect(
+            db.hasLabel({ name: "qa", platform: "android", storeId: "dummy" }),
+          ).true;
+        });
+
+        it("should return false if the label does not exist", () => {
+          const db = createSeededDb();
+          expect(
+            db.hasLabel({
+              name: "staging",
+              platform: "android",
+              storeId: "dummy",
+            }),
+          ).false;
+        });
+      });
+
+      describe("getLabel", () => {
+        it("should throw if the label does not exist", () => {
+          const db = createSeededDb();
+          expect(() =>
+            db.getLabel({ name: "qa", platform: "ios", storeId: "dummy" }),
+          ).to.throw();
+        });
+
+        it("should return the label", () => {
+          const db = createSeededDb();
+          expect(
+            db.getLabel({ name: "qa", platform: "android", storeId: "dummy" }),
+          ).deep.equal(qaLabel);
+        });
+      });
+
+      describe("setLabel", () => {
+        it("should throw if the bundle does not exist", () => {
+          const db = createSeededDb();
+          expect(() =>
+            db.setLabel({
+              bundleId: "f540f429-879b-4425-a587-558b55082960",
+              name: "staging",
+              platform: "android",
+              storeId: "dummy",
+            }),
+          ).to.throw();
+        });
+
+        it("should throw if the bundle is not of the label platform", () => {
+          const db = createSeededDb();
+          expect(() =>
+            db.setLabel({
+              bundleId: androidBundleA.id,
+              name: "staging",
+              platform: "ios",
+              storeId: "dummy",
+            }),
+          ).to.throw();
+        });
+
+        it("should throw if the label name is a bundle id", () => {
+          const db = createSeededDb();
+          expect(() =>
+            db.setLabel({
+              bundleId: androidBundleA.id,
+              name: "de0f2684-b070-4560-a01b-1a3fbc33d735",
+              platform: "android",
+              storeId: "dummy",
+            }),
+          ).to.throw(ValidationError);
+        });
+
+        it("should throw if the label name is reserved", () => {
+          const db = createSeededDb();
+          expect(() =>
+            db.setLabel({
+              bundleId: androidBundleA.id,
+              name: "latest",
+              platform: "android",
+              storeId: "dummy",
+            }),
+          ).to.throw();
+        });
+
+        it("should create the label", () => {
+          const db = createSeededDb();
+          db.setLabel({
+            bundleId: androidBundleB.id,
+            name: "staging",
+            platform: "android",
+            storeId: "dummy",
+          });
+          expect(
+            db.getLabel({
+              name: "staging",
+              platform: "android",
+              storeId: "dummy",
+            }).bundleId,
+          ).equal(androidBundleB.id);
+        });
+
+        it("should move an existing label", () => {
+          const db = createSeededDb();
+          db.setLabel({
+            bundleId: androidBundleB.id,
+            name: "qa",
+            platform: "android",
+            storeId: "dummy",
+          });
+          expect(db.getLabels({ storeId: "dummy" })).length(1);
+          expect(
+            db.getLabel({ name: "qa", platform: "android", storeId: "dummy" })
+              .bundleId,
+          ).equal(androidBundleB.id);
+        });
+      });
+
+      describe("delLabel", () => {
+        it("should throw if the label does not exist", () => {
+          const db = createSeededDb();
+          expect(() =>
+            db.delLabel({
+              name: "staging",
+              platform: "android",
+              storeId: "dummy",
+            }),
+          ).to.throw();
+        });
+
+        it("should delete the label", () => {
+          const db = createSeededDb();
+          db.delLabel({ name: "qa", platform: "android", storeId: "dummy" });
+          expect(
+            db.hasLabel({ name: "qa", platform: "android", storeId: "dummy" }),
+          ).false;
+        });
+      });
+
+      it("should delete the labels of a deleted bundle", () => {
+        const db = createSeededDb();
+        db.delBundle({ bundleId: androidBundleA.id, storeId: "dummy" });
+        expect(db.getLabels({ storeId: "dummy" })).deep.equal([]);
+      });
     });
 
-    it("should throw if the bundle does not exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [androidBundleA, androidBundleB],
-            id: "dummy",
+    describe("access keys", () => {
+      const legacyKey = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+
+      function createSeededDb() {
+        return createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: legacyKey,
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+      }
+
+      describe("upgrade", () => {
+        it("should convert a legacy access key to an admin key", () => {
+          const { db } = createSeededDb();
+          const [accessKey] = db.getAccessKeys("dummy");
+          expect(accessKey.id).equal("default");
+          expect(accessKey.scopes).deep.equal(["admin"]);
+          expect(accessKey.hash).equal(BundleStoreDb.hashAccessKey(legacyKey));
+          expect(db.getStore("dummy").accessKey).undefined;
+        });
+
+        it("should keep accepting the legacy access key", () => {
+          const { db } = createSeededDb();
+          expect(db.findAccessKey({ key: legacyKey, storeId: "dummy" })).not
+            .undefined;
+        });
       });
-      expect(() =>
-        db.delBundle({
-          bundleId: "f540f429-879b-4425-a587-558b55082960",
+
+      describe("createStore", () => {
+        it("should only store the hash of the access key", () => {
+          const { db } = createDb();
+          const { accessKey } = db.createStore("dummy");
+          expect(JSON.stringify(db.data)).not.include(accessKey);
+          expect(db.findStoreByAccessKey(accessKey!)!.id).equal("dummy");
+        });
+      });
+
+      describe("createAccessKey", () => {
+        it("should create a key with the given scopes", () => {
+          const { db } = createSeededDb();
+          const { accessKey, key } = db.createAccessKey({
+            name: "ci",
+            scopes: ["upload"],
+            storeId: "dummy",
+          });
+          expect(db.findAccessKey({ key, storeId: "dummy" })).deep.equal(
+            accessKey,
+          );
+          expect(BundleStoreDb.hasScope(accessKey, "upload")).true;
+          expect(BundleStoreDb.hasScope(accessKey, "delete")).false;
+        });
+
+        it("should throw if the store does not exist", () => {
+          const { db } = createDb();
+          expect(() =>
+            db.createAccessKey({
+              name: "ci",
+              scopes: ["upload"],
+              storeId: "dummy",
+            }),
+          ).to.throw();
+        });
+      });
+
+      describe("findAccessKey", () => {
+        it("should not return an expired key", () => {
+          const { db } = createSeededDb();
+          const { key } = db.createAccessKey({
+            expiresAt: Date.now() - 1000,
+            name: "ci",
+            scopes: ["upload"],
+            storeId: "dummy",
+          });
+          expect(db.findAccessKey({ key, storeId: "dummy" })).undefined;
+        });
+
+        it("should not return a key of another store", () => {
+          const { db } = createSeededDb();
+          db.createStore("other");
+          expect(db.findAccessKey({ key: legacyKey, storeId: "other" }))
+            .undefined;
+        });
+      });
+
+      describe("rotateAccessKey", () => {
+        it("should replace the key", () => {
+          const { db } = createSeededDb();
+          const { key } = db.rotateAccessKey({
+            keyId: "default",
+            storeId: "dummy",
+          });
+          expect(db.findAccessKey({ key: legacyKey, storeId: "dummy" }))
+            .undefined;
+          expect(db.findAccessKey({ key, storeId: "dummy" })!.id).equal(
+            "default",
+          );
+        });
+      });
+
+      describe("revokeAccessKey", () => {
+        it("should throw if the key does not exist", () => {
+          const { db } = createSeededDb();
+          expect(() =>
+            db.revokeAccessKey({ keyId: "unknown", storeId: "dummy" }),
+          ).to.throw();
+        });
+
+        it("should revoke the key", () => {
+          const { db } = createSeededDb();
+          db.revokeAccessKey({ keyId: "default", storeId: "dummy" });
+          expect(db.getAccessKeys("dummy")).deep.equal([]);
+        });
+      });
+
+      describe("access tokens", () => {
+        it("should resolve a token to the access key that signed it", () => {
+          const { db } = createSeededDb();
+          const token = db.createAccessToken({
+            expiresAt: Date.now() + 60000,
+            keyId: "default",
+            storeId: "dummy",
+          });
+          expect(
+            db.findAccessKeyByToken({ storeId: "dummy", token })!.id,
+          ).equal("default");
+        });
+
+        it("should not resolve an expired token", () => {
+          const { db } = createSeededDb();
+          const token = db.createAccessToken({
+            expiresAt: Date.now() - 1000,
+            keyId: "default",
+            storeId: "dummy",
+          });
+          expect(db.findAccessKeyByToken({ storeId: "dummy", token }))
+            .undefined;
+        });
+
+        it("should not resolve a token once the access key is rotated", () => {
+          const { db } = createSeededDb();
+          const token = db.createAccessToken({
+            expiresAt: Date.now() + 60000,
+            keyId: "default",
+            storeId: "dummy",
+          });
+          db.rotateAccessKey({ keyId: "default", storeId: "dummy" });
+          expect(db.findAccessKeyByToken({ storeId: "dummy", token }))
+            .undefined;
+        });
+
+        it("should not resolve a malformed token", () => {
+          const { db } = createSeededDb();
+          expect(
+            db.findAccessKeyByToken({ storeId: "dummy", token: "default" }),
+          ).undefined;
+        });
+      });
+
+      describe("resetAccessKeys", () => {
+        it("should replace all the keys with a new admin key", () => {
+          const { db } = createSeededDb();
+          db.createAccessKey({
+            name: "ci",
+            scopes: ["upload"],
+            storeId: "dummy",
+          });
+          const { accessKey, key } = db.resetAccessKeys("dummy");
+          expect(db.getAccessKeys("dummy")).deep.equal([accessKey]);
+          expect(accessKey.scopes).deep.equal(["admin"]);
+          expect(db.findAccessKey({ key, storeId: "dummy" })).not.undefined;
+        });
+      });
+
+      describe("signResource", () => {
+        it("should produce signatures only valid for the signed resource", () => {
+          const { db } = createSeededDb();
+          const expiresAt = Date.now() + 60000;
+          const signature = db.signResource({
+            expiresAt,
+            keyId: "default",
+            resource: "/foo",
+            storeId: "dummy",
+          });
+          const verify = (resource: string) =>
+            db.findAccessKeyBySignature({
+              expiresAt,
+              keyId: "default",
+              resource,
+              signature,
+              storeId: "dummy",
+            });
+          expect(verify("/foo")!.id).equal("default");
+          expect(verify("/bar")).undefined;
+        });
+
+        it("should ignore malformed signatures", () => {
+          const { db } = createSeededDb();
+          expect(
+            db.findAccessKeyBySignature({
+              expiresAt: Date.now() + 60000,
+              keyId: "default",
+              resource: "/foo",
+              signature: "é".repeat(64),
+              storeId: "dummy",
+            }),
+          ).undefined;
+        });
+
+        it("should only accept the signatures made with the same secret", () => {
+          const { dbPath } = createSeededDb();
+          const openDb = (signingSecret: string) =>
+            createBundleStoreDb({ backend, dbPath, signingSecret });
+          const expiresAt = Date.now() + 60000;
+          const signature = openDb("secret").signResource({
+            expiresAt,
+            keyId: "default",
+            resource: "/foo",
+            storeId: "dummy",
+          });
+          const verify = (db: BundleStoreDb) =>
+            db.findAccessKeyBySignature({
+              expiresAt,
+              keyId: "default",
+              resource: "/foo",
+              signature,
+              storeId: "dummy",
+            });
+          expect(verify(openDb("secret"))).not.undefined;
+          expect(verify(openDb("other-secret"))).undefined;
+        });
+      });
+
+      it("should persist access key changes made on a legacy database", () => {
+        const { db, dbPath } = createSeededDb();
+        const { key } = db.createAccessKey({
+          name: "ci",
+          scopes: ["read"],
           storeId: "dummy",
-        }),
-      ).to.throw();
+        });
+        const reopenedDb = createBundleStoreDb({ backend, dbPath });
+        expect(reopenedDb.data).deep.equal(db.data);
+        expect(reopenedDb.findAccessKey({ key, storeId: "dummy" })).not
+          .undefined;
+      });
     });
 
-    it("should delete the bundle", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [androidBundleA, androidBundleB],
-            id: "dummy",
+    describe("createStore", () => {
+      it("should throw if store exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(() => db.createStore("dummy")).to.throw();
       });
-      db.delBundle({
-        bundleId: androidBundleA.id,
-        storeId: "dummy",
+
+      it("should create the store", () => {
+        const { db } = createDb();
+        db.createStore("dummy");
+        expect(db.hasStore("dummy")).true;
       });
-      expect(db.hasBundle({ bundleId: androidBundleA.id, storeId: "dummy" }))
-        .false;
     });
 
-    it("should return the deleted bundle", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [androidBundleA, androidBundleB],
-            id: "dummy",
+    describe("hasStore", () => {
+      it("should return true if store exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(db.hasStore("dummy")).true;
       });
-      const res = db.delBundle({
-        bundleId: androidBundleA.id,
-        storeId: "dummy",
+
+      it("should return false if the store does not exist", () => {
+        const { db } = createDb();
+        expect(db.hasStore("dummy")).false;
       });
-      expect(res).deep.equal(androidBundleA);
     });
-  });
 
-  describe("createStore", () => {
-    it("should throw if store exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+    describe("getStore", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() => db.getStore("dummy")).to.throw();
+      });
+
+      it("should return the store", () => {
+        const store: Store = {
+          accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+          bundles: [],
+          id: "dummy",
+        };
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: store,
           },
-        },
+        });
+        expect(db.getStore("dummy")).to.deep.equal(store);
       });
-      expect(() => db.createStore("dummy")).to.throw();
     });
 
-    it("should create the store", () => {
-      const { db } = createDb();
-      db.createStore("dummy");
-      expect(db.hasStore("dummy")).true;
-    });
-  });
+    describe("delStore", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() => db.delStore("dummy")).to.throw();
+      });
 
-  describe("hasStore", () => {
-    it("should return true if store exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+      it("should delete the store", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        db.delStore("dummy");
+        expect(db.hasStore("dummy")).false;
       });
-      expect(db.hasStore("dummy")).true;
     });
 
-    it("should return false if the store does not exist", () => {
-      const { db } = createDb();
-      expect(db.hasStore("dummy")).false;
-    });
-  });
+    describe("setStorePrivate", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() =>
+          db.setStorePrivate({ isPrivate: true, storeId: "dummy" }),
+        ).to.throw();
+      });
 
-  describe("getStore", () => {
-    it("should throw if the store does not exist", () => {
-      const { db } = createDb();
-      expect(() => db.getStore("dummy")).to.throw();
+      it("should set the store private flag", () => {
+        const { db } = createDb();
+        db.createStore("dummy");
+        db.setStorePrivate({ isPrivate: true, storeId: "dummy" });
+        expect(db.getStore("dummy").private).true;
+        db.setStorePrivate({ isPrivate: false, storeId: "dummy" });
+        expect(db.getStore("dummy").private).false;
+      });
     });
 
-    it("should return the store", () => {
-      const store: Store = {
-        accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-        bundles: [],
-        id: "dummy",
-      };
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: store,
-        },
+    describe("setStoreRetention", () => {
+      it("should throw if the store does not exist", () => {
+        const { db } = createDb();
+        expect(() =>
+          db.setStoreRetention({
+            retention: { keepLast: 5 },
+            storeId: "dummy",
+          }),
+        ).to.throw();
       });
-      expect(db.getStore("dummy")).to.deep.equal(store);
-    });
-  });
 
-  describe("delStore", () => {
-    it("should throw if the store does not exist", () => {
-      const { db } = createDb();
-      expect(() => db.delStore("dummy")).to.throw();
+      it("should set and remove the store retention policy", () => {
+        const { db, dbPath } = createDb();
+        db.createStore("dummy");
+        db.setStoreRetention({
+          retention: { keepDays: 30, keepLast: 5 },
+          storeId: "dummy",
+        });
+        expect(db.getStore("dummy").retention).deep.equal({
+          keepDays: 30,
+          keepLast: 5,
+        });
+        expect(
+          createBundleStoreDb({ backend, dbPath }).getStore("dummy").retention,
+        ).deep.equal({ keepDays: 30, keepLast: 5 });
+        db.setStoreRetention({ retention: null, storeId: "dummy" });
+        expect(db.getStore("dummy")).not.have.property("retention");
+      });
     });
 
-    it("should delete the store", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+    describe("getStores", () => {
+      it("should return all the stores", () => {
+        const store: Store = {
+          accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+          bundles: [],
+          id: "dummy",
+        };
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: store,
           },
-        },
+        });
+        expect(Object.keys(db.getStores())).includes("dummy");
       });
-      db.delStore("dummy");
-      expect(db.hasStore("dummy")).false;
     });
-  });
 
-  describe("getStores", () => {
-    it("should return all the stores", () => {
-      const store: Store = {
-        accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-        bundles: [],
-        id: "dummy",
-      };
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: store,
-        },
+    describe("getAssets", () => {
+      it("should return all the assets", () => {
+        const assets: Assets = {
+          f6264846f4b8b90b34bbccf0c0ec38b1: {},
+          ffc71969f5f0d7b4142f729a755bc50a: {},
+        };
+        const { db } = createDb({
+          assets,
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
+          },
+        });
+        expect(db.getAssets()).to.deep.equal(assets);
       });
-      expect(Object.keys(db.getStores())).includes("dummy");
     });
-  });
 
-  describe("getAssets", () => {
-    it("should return all the assets", () => {
-      const assets: Assets = {
-        f6264846f4b8b90b34bbccf0c0ec38b1: {},
-        ffc71969f5f0d7b4142f729a755bc50a: {},
-      };
-      const { db } = createDb({
-        assets,
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
-          },
-        },
+    describe("createAssets", () => {
+      it("should create all the assets", () => {
+        const assets: Assets = {
+          f6264846f4b8b90b34bbccf0c0ec38b1: { createdAt: 1565981244558 },
+          ffc71969f5f0d7b4142f729a755bc50a: { createdAt: 1565981244558 },
+        };
+        const assetsIds = [
+          "f6264846f4b8b90b34bbccf0c0ec38b1",
+          "ffc71969f5f0d7b4142f729a755bc50a",
+        ];
+        const { db } = createDb();
+        expect(db.createAssets(assetsIds, 1565981244558)).deep.equal(assets);
+        expect(db.getAssets()).deep.equal(assets);
       });
-      expect(db.getAssets()).to.deep.equal(assets);
     });
-  });
 
-  describe("createAssets", () => {
-    it("should create all the assets", () => {
-      const assets: Assets = {
-        f6264846f4b8b90b34bbccf0c0ec38b1: {},
-        ffc71969f5f0d7b4142f729a755bc50a: {},
-      };
-      const assetsIds = [
-        "f6264846f4b8b90b34bbccf0c0ec38b1",
-        "ffc71969f5f0d7b4142f729a755bc50a",
-      ];
-      const { db } = createDb();
-      expect(db.createAssets(assetsIds)).deep.equal(assets);
+    describe("delAssets", () => {
+      it("should delete the assets", () => {
+        const { db, dbPath } = createDb();
+        db.createAssets([
+          "f6264846f4b8b90b34bbccf0c0ec38b1",
+          "ffc71969f5f0d7b4142f729a755bc50a",
+        ]);
+        db.delAssets(["f6264846f4b8b90b34bbccf0c0ec38b1"]);
+        expect(Object.keys(db.getAssets())).deep.equal([
+          "ffc71969f5f0d7b4142f729a755bc50a",
+        ]);
+        expect(
+          Object.keys(createBundleStoreDb({ backend, dbPath }).getAssets()),
+        ).deep.equal(["ffc71969f5f0d7b4142f729a755bc50a"]);
+      });
     });
-  });
 
-  describe("throwIfStoreDoesNotExist", () => {
-    it("should throw if store does not exist", () => {
-      const { db } = createDb();
-      expect(() => db.throwIfStoreDoesNotExist("dummy")).to.throw();
-    });
+    describe("throwIfStoreDoesNotExist", () => {
+      it("should throw if store does not exist", () => {
+        const { db } = createDb();
+        expect(() => db.throwIfStoreDoesNotExist("dummy")).to.throw(
+          NotFoundError,
+        );
+      });
 
-    it("should not throw if store exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+      it("should not throw if store exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(() => db.throwIfStoreDoesNotExist("dummy")).to.not.throw();
       });
-      expect(() => db.throwIfStoreDoesNotExist("dummy")).to.not.throw();
     });
-  });
 
-  describe("throwIfStoreExist", () => {
-    it("should not throw if store does not exist", () => {
-      const { db } = createDb();
-      expect(() => db.throwIfStoreExist("dummy")).to.not.throw();
-    });
+    describe("throwIfStoreExist", () => {
+      it("should not throw if store does not exist", () => {
+        const { db } = createDb();
+        expect(() => db.throwIfStoreExist("dummy")).to.not.throw();
+      });
 
-    it("should throw if store exist", () => {
-      const { db } = createDb({
-        assets: {},
-        stores: {
-          dummy: {
-            accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-            bundles: [],
-            id: "dummy",
+      it("should throw if store exist", () => {
+        const { db } = createDb({
+          assets: {},
+          stores: {
+            dummy: {
+              accessKey: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              bundles: [],
+              id: "dummy",
+            },
           },
-        },
+        });
+        expect(() => db.throwIfStoreExist("dummy")).to.throw(ConflictError);
       });
-      expect(() => db.throwIfStoreExist("dummy")).to.throw();
     });
   });
-});
+}
@@ -2,12 +2,21 @@
 
 import chai, { expect } from "chai";
 import chaiHttp from "chai-http";
+import crypto from "crypto";
 import fs from "fs";
 import "mocha";
 import path from "path";
 import shell from "shelljs";
 import tmp from "tmp";
+import url from "url";
+import zlib from "zlib";
 import { BundleStoreServer } from "../src/BundleStoreServer";
+import {
+  ConflictError,
+  PayloadTooLargeError,
+  ValidationError,
+} from "../src/errors";
+import { LogBundleStoreDb } from "../src/LogBundleStoreDb";
 
 describe("server", () => {
   tmp.setGracefulCleanup();
@@ -22,11 +31,45 @@ describe("server", () => {
 
   function createServer(config?: BundleStoreServerUserConfig) {
     const tmpStoreDir = createTmpDir();
-    return new BundleStoreServer(
-      config || {
-        rootPath: tmpStoreDir,
-      },
-    );
+    return new BundleStoreServer({
+      // Keeps the servers from writing a secret file in the store fixture
+      signingSecret: "signing-secret",
+      ...(config || { rootPath: tmpStoreDir }),
+    });
+  }
+
+  async function expectRejection(promise: Promise<any>) {
+    let error: Error | undefined;
+    try {
+      await promise;
+    } catch (err) {
+      error = err;
+    }
+    expect(error, "expected promise to be rejected").not.undefined;
+  }
+
+  /**
+   * Replaces the source maps of the bundles by a stub mapping each position
+   * to the previous line and column of a `<bundleId>.js` source.
+   */
+  function stubSourceMaps(sut: BundleStoreServer) {
+    const stub = { destroyed: 0, loaded: [] as string[] };
+    sut.loadSourceMap = async (bundle, { hermes = false } = {}) => {
+      const id = hermes ? `${bundle.id}/hermes` : bundle.id;
+      stub.loaded.push(id);
+      const consumer = {
+        destroy: () => stub.destroyed++,
+        originalPositionFor: ({ column, line }) => ({
+          column: column - 1,
+          line: line - 1,
+          name: null,
+          source: `${id}.js`,
+        }),
+        sourceContentFor: () => null,
+      } as any;
+      return { consumer, size: 100 };
+    };
+    return stub;
   }
 
   function binaryParser(res, callback) {
@@ -68,6 +111,18 @@ describe("server", () => {
       const sut = createServer();
       expect(sut.config.port).equal(3000);
     });
+
+    it("should normalize config [default dbBackend]", () => {
+      const sut = createServer();
+      expect(sut.config.dbBackend).equal("json");
+      expect(path.basename(sut.config.paths.db)).equal("db.json");
+    });
+
+    it("should use the configured database backend", () => {
+      const sut = createServer({ dbBackend: "log", rootPath: createTmpDir() });
+      expect(sut.db).instanceOf(LogBundleStoreDb);
+      expect(path.basename(sut.config.paths.db)).equal("db.log");
+    });
   });
 
   describe("extractSegmentsFromBundleUrl", () => {
@@ -90,30 +145,192 @@ describe("server", () => {
     });
   });
 
-  describe("getSourceMap", () => {
-    it("should throw if store does not exist", () => {
+  describe("parseBundleMetadata", () => {
+    it("should throw if the metadata is not valid JSON", () => {
+      const sut = createServer();
+      expect(() => sut.parseBundleMetadata("{version")).to.throw();
+    });
+
+    it("should throw if the metadata is not a JSON object", () => {
+      const sut = createServer();
+      expect(() => sut.parseBundleMetadata(`["1.0.0"]`)).to.throw();
+    });
+
+    it("should throw if the metadata contains an unknown field", () => {
+      const sut = createServer();
+      expect(() => sut.parseBundleMetadata(`{"foo":"bar"}`)).to.throw();
+    });
+
+    it("should throw if a metadata field is not a string", () => {
+      const sut = createServer();
+      expect(() => sut.parseBundleMetadata(`{"version":1}`)).to.throw();
+    });
+
+    it("should throw if a tag value is not a string", () => {
       const sut = createServer();
       expect(() =>
+        sut.parseBundleMetadata(`{"tags":{"build":1234}}`),
+      ).to.throw();
+    });
+
+    it("should return the parsed metadata", () => {
+      const sut = createServer();
+      const metadata = {
+        author: "jdoe",
+        branch: "master",
+        commit: "2f8b3a1",
+        description: "Fix login screen",
+        tags: { env: "staging" },
+        version: "1.2.0",
+      };
+      expect(sut.parseBundleMetadata(JSON.stringify(metadata))).deep.equal(
+        metadata,
+      );
+    });
+  });
+
+  describe("parseAssetManifest", () => {
+    it("should throw if the manifest is not valid JSON", () => {
+      const sut = createServer();
+      expect(() => sut.parseAssetManifest("[47ce")).to.throw(ValidationError);
+    });
+
+    it("should throw if the manifest contains an invalid hash", () => {
+      const sut = createServer();
+      expect(() => sut.parseAssetManifest(`["logo.png"]`)).to.throw(
+        ValidationError,
+      );
+    });
+
+    it("should return the sorted unique hashes", () => {
+      const sut = createServer();
+      expect(
+        sut.parseAssetManifest(
+          JSON.stringify([
+            "ffc71969f5f0d7b4142f729a755bc50a",
+            "47ce6e77f039020ee2e76a10c1e988e9",
+            "ffc71969f5f0d7b4142f729a755bc50a",
+          ]),
+        ),
+      ).deep.equal([
+        "47ce6e77f039020ee2e76a10c1e988e9",
+        "ffc71969f5f0d7b4142f729a755bc50a",
+      ]);
+    });
+  });
+
+  describe("extractAssetHashes", () => {
+    it("should extract the hashes of the assets registered by a minified bundle", () => {
+      const sut = createServer();
+      const bundle = Buffer.from(
+        [
+          `__d(function(g,r,i,a,m,e,d){m.exports=r(d[0]).registerAsset({__packager_asset:!0,httpServerLocation:"/assets/src",width:64,height:64,scales:[1,2,3],hash:"70d6fbba5502a18a0c052b6f6cb3fc32",name:"img",type:"png"})},12,[13]);`,
+          `__d(function(g,r,i,a,m,e,d){m.exports=r(d[0]).registerAsset({__packager_asset:!0,httpServerLocation:"/assets/src",scales:[1],hash:"47ce6e77f039020ee2e76a10c1e988e9",name:"logo",type:"png"})},14,[13]);`,
+          `__d(function(g,r,i,a,m,e,d){var n=[];m.exports={registerAsset:function(t){return n.push(t)},getAssetByID:function(t){return n[t-1]}}},13,[]);`,
+          `__d(function(g,r,i,a,m,e,d){m.exports={hash:"ffc71969f5f0d7b4142f729a755bc50a"}},15,[]);`,
+        ].join("\n"),
+      );
+      expect(sut.extractAssetHashes(bundle)).deep.equal([
+        "47ce6e77f039020ee2e76a10c1e988e9",
+        "70d6fbba5502a18a0c052b6f6cb3fc32",
+      ]);
+    });
+
+    it("should extract the hashes of the assets registered by a development bundle", () => {
+      const sut = createServer();
+      const bundle = Buffer.from(
+        [
+          `__d(function (global, _$$_REQUIRE, _$$_IMPORT_DEFAULT, _$$_IMPORT_ALL, module, exports, _dependencyMap) {`,
+          `  module.exports = _$$_REQUIRE(_dependencyMap[0]).registerAsset({`,
+          `    "__packager_asset": true,`,
+          `    "httpServerLocation": "/assets/src",`,
+          `    "scales": [1],`,
+          `    "hash": "47ce6e77f039020ee2e76a10c1e988e9",`,
+          `    "name": "logo",`,
+          `    "type": "png"`,
+          `  });`,
+          `},14,[13]);`,
+          `__d(function (global, _$$_REQUIRE, _$$_IMPORT_DEFAULT, _$$_IMPORT_ALL, module, exports, _dependencyMap) {`,
+          `  module.exports = _$$_REQUIRE(_dependencyMap[0]).registerAsset({'hash': '70d6fbba5502a18a0c052b6f6cb3fc32', 'name': 'img'});`,
+          `  function registerAsset(asset) { return assets.push(asset); }`,
+          `},12,[13]);`,
+        ].join("\n"),
+      );
+      expect(sut.extractAssetHashes(bundle, { strict: true })).deep.equal([
+        "47ce6e77f039020ee2e76a10c1e988e9",
+        "70d6fbba5502a18a0c052b6f6cb3fc32",
+      ]);
+    });
+
+    it("should throw in strict mode if the hash of a registered asset cannot be extracted", () => {
+      const sut = createServer();
+      const bundle = Buffer.from(
+        `__d(function(g,r,i,a,m,e,d){m.exports=r(d[0]).registerAsset({__packager_asset:!0,scales:[1],hash:n,name:"logo",type:"png"})},14,[13]);`,
+      );
+      expect(sut.extractAssetHashes(bundle)).deep.equal([]);
+      expect(() => sut.extractAssetHashes(bundle, { strict: true }))
+        .to.throw(ValidationError)
+        .with.property("code", "MISSING_ASSETS");
+    });
+  });
+
+  describe("parseBundleFilter", () => {
+    it("should return an empty filter if the query is empty", () => {
+      const sut = createServer();
+      expect(sut.parseBundleFilter({})).deep.equal({});
+    });
+
+    it("should return the metadata fields of the filter", () => {
+      const sut = createServer();
+      expect(
+        sut.parseBundleFilter({ branch: "master", foo: "bar", version: "1.0" }),
+      ).deep.equal({ branch: "master", version: "1.0" });
+    });
+
+    it("should return the tags of the filter", () => {
+      const sut = createServer();
+      expect(
+        sut.parseBundleFilter({ tag: ["env:staging", "url:http://a"] }),
+      ).deep.equal({ tags: { env: "staging", url: "http://a" } });
+    });
+
+    it("should throw if a tag is not using key:value format", () => {
+      const sut = createServer();
+      expect(() => sut.parseBundleFilter({ tag: "staging" })).to.throw();
+    });
+
+    it("should throw if a tag is not a string", () => {
+      const sut = createServer();
+      expect(() => sut.parseBundleFilter({ tag: { env: "qa" } })).to.throw(
+        ValidationError,
+      );
+    });
+  });
+
+  describe("getSourceMap", () => {
+    it("should throw if store does not exist", async () => {
+      const sut = createServer();
+      await expectRejection(
         sut.getSourceMap({
           bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
           platform: "android",
           storeId: "dummy",
         }),
-      ).to.throw();
+      );
     });
 
-    it("should throw if bundle id does not exist", () => {
+    it("should throw if bundle id does not exist", async () => {
       const sut = createServer();
-      expect(() =>
+      await expectRejection(
         sut.getSourceMap({
           bundleId: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
           platform: "android",
           storeId: "dummy",
         }),
-      ).to.throw();
+      );
     });
 
-    it("should return the sourcemap content [specific bundle id]", () => {
+    it("should return the sourcemap content [specific bundle id]", async () => {
       const tmpDir = createTmpDir();
       const sut = createServer({
         dbSeed: {
@@ -140,7 +357,7 @@ describe("server", () => {
         ),
         "SOURCEMAP_CONTENT",
       );
-      const sourcemap = sut.getSourceMap({
+      const sourcemap = await sut.getSourceMap({
         bundleId: "9e122bee-9a90-4158-9205-6759751d80dd",
         platform: "android",
         storeId: "dummy",
@@ -148,7 +365,7 @@ describe("server", () => {
       expect(sourcemap).equal("SOURCEMAP_CONTENT");
     });
 
-    it("should return the sourcemap content [latest bundle id]", () => {
+    it("should return the sourcemap content [latest bundle id]", async () => {
       const tmpDir = createTmpDir();
       const sut = createServer({
         dbSeed: {
@@ -175,7 +392,7 @@ describe("server", () => {
         ),
         "SOURCEMAP_CONTENT",
       );
-      const sourcemap = sut.getSourceMap({
+      const sourcemap = await sut.getSourceMap({
         bundleId: "latest",
         platform: "android",
         storeId: "dummy",
@@ -184,8 +401,318 @@ describe("server", () => {
     });
   });
 
+  describe("symbolicate", () => {
+    const bundleA: Bundle = {
+      id: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+      platform: "android",
+      sourceMap: "f7117cff-efc8-4201-a297-6e571f309c2c",
+      timestamp: 1565980792572,
+    };
+    const bundleB: Bundle = {
+      id: "9e122bee-9a90-4158-9205-6759751d80dd",
+      platform: "android",
+      sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+      timestamp: 1565981244558,
+    };
+
+    it("should symbolicate each frame with the source map of its bundle", async () => {
+      const sut = createServer();
+      const stub = stubSourceMaps(sut);
+      const stack: StackFrame[] = [
+        { column: 10, file: "a", lineNumber: 20, methodName: "foo" },
+        { column: 30, file: "b", lineNumber: 40, methodName: "bar" },
+        { column: 50, file: "a", lineNumber: 60, methodName: "baz" },
+        { column: 70, file: "native", lineNumber: 80, methodName: "qux" },
+      ];
+      const bundles = { a: bundleA, b: bundleB };
+      const symbolicated = await sut.symbolicate(
+        stack,
+        (f) => bundles[f.file!],
+      );
+      expect(symbolicated.stack).deep.equal([
+        {
+          arguments: undefined,
+          collapse: false,
+          column: 9,
+          file: `${bundleA.id}.js`,
+          lineNumber: 19,
+          methodName: "foo",
+        },
+        {
+          arguments: undefined,
+          collapse: false,
+          column: 29,
+          file: `${bundleB.id}.js`,
+          lineNumber: 39,
+          methodName: "bar",
+        },
+        {
+          arguments: undefined,
+          collapse: false,
+          column: 49,
+          file: `${bundleA.id}.js`,
+          lineNumber: 59,
+          methodName: "baz",
+        },
+        { ...stack[3], collapse: false },
+      ]);
+      expect(stub.loaded).deep.equal([bundleA.id, bundleB.id]);
+      expect(stub.destroyed).equal(0);
+    });
+
+    it("should reuse the cached source maps across calls", async () => {
+      const sut = createServer();
+      const stub = stubSourceMaps(sut);
+      const stack: StackFrame[] = [
+        { column: 10, file: "a", lineNumber: 20, methodName: "foo" },
+      ];
+      await sut.symbolicate(stack, () => bundleA);
+      await sut.symbolicate(stack, () => bundleA);
+      expect(stub.loaded).deep.equal([bundleA.id]);
+      expect(sut.sourceMapCache.getStats()).include({
+        entries: 1,
+        hits: 1,
+        misses: 1,
+        size: 100,
+      });
+    });
+
+    it("should destroy the source maps once used when the cache is disabled", async () => {
+      const sut = createServer({
+        rootPath: createTmpDir(),
+        sourceMapCacheSize: -1,
+      });
+      const stub = stubSourceMaps(sut);
+      const stack: StackFrame[] = [
+        { column: 10, file: "a", lineNumber: 20, methodName: "foo" },
+        { column: 30, file: "b", lineNumber: 40, methodName: "bar" },
+      ];
+      const bundles = { a: bundleA, b: bundleB };
+      await sut.symbolicate(stack, (f) => bundles[f.file!]);
+      await sut.symbolicate(stack, (f) => bundles[f.file!]);
+      expect(stub.loaded).length(4);
+      expect(stub.destroyed).equal(4);
+      expect(sut.sourceMapCache.getStats().entries).equal(0);
+    });
+
+    it("should evict the source map of a deleted bundle", async () => {
+      const sut = createServer();
+      const stub = stubSourceMaps(sut);
+      const stack: StackFrame[] = [
+        { column: 10, file: "a", lineNumber: 20, methodName: "foo" },
+      ];
+      await sut.symbolicate(stack, () => bundleA);
+      await sut.delBundleBlobs(bundleA);
+      expect(stub.destroyed).equal(1);
+      expect(sut.sourceMapCache.getStats()).include({ entries: 0, size: 0 });
+    });
+
+    it("should symbolicate the frames of Hermes bytecode bundles", async () => {
+      const sut = createServer();
+      const stub = stubSourceMaps(sut);
+      const stack: StackFrame[] = [
+        {
+          column: 12345,
+          file: "address at index.android.bundle",
+          lineNumber: 1,
+          methodName: "onPress",
+        },
+      ];
+      const { stack: symbolicated } = await sut.symbolicate(stack, (f) =>
+        f.file === "index.android.bundle" ? bundleA : undefined,
+      );
+      expect(symbolicated).deep.equal([
+        {
+          arguments: undefined,
+          collapse: false,
+          column: 12344,
+          file: `${bundleA.id}.js`,
+          lineNumber: 0,
+          methodName: "onPress",
+        },
+      ]);
+      expect(stub.loaded).deep.equal([bundleA.id]);
+    });
+
+    it("should symbolicate the frames of the Hermes bytecode of JS bundles with its source map", async () => {
+      const sut = createServer();
+      const stub = stubSourceMaps(sut);
+      const bundle: Bundle = {
+        ...bundleA,
+        hermes: { hash: "a".repeat(64), sourceMap: "b".repeat(64) },
+      };
+      const stack: StackFrame[] = [
+        {
+          column: 12345,
+          file: "address at index.android.bundle",
+          lineNumber: 1,
+          methodName: "onPress",
+        },
+        {
+          column: 20,
+          file: "http://localhost:3000/index.bundle?format=hbc",
+          lineNumber: 1,
+          methodName: "render",
+        },
+        {
+          column: 30,
+          file: "http://localhost:3000/index.bundle",
+          lineNumber: 40,
+          methodName: "apply",
+        },
+      ];
+      const { stack: symbolicated } = await sut.symbolicate(
+        stack,
+        () => bundle,
+      );
+      expect(symbolicated.map((f) => f.file)).deep.equal([
+        `${bundle.id}/hermes.js`,
+        `${bundle.id}/hermes.js`,
+        `${bundle.id}.js`,
+      ]);
+      expect(stub.loaded).deep.equal([`${bundle.id}/hermes`, bundle.id]);
+      await sut.delBundleBlobs(bundle);
+      expect(stub.destroyed).equal(2);
+    });
+
+    it("should symbolicate the crash logs of the Hermes bytecode of JS bundles with its source map", async () => {
+      const sut = createServer();
+      const stub = stubSourceMaps(sut);
+      const bundle: Bundle = {
+        ...bundleA,
+        hermes: { hash: "a".repeat(64), sourceMap: "b".repeat(64) },
+      };
+      const { stack } = await sut.symbolicateCrashLog(
+        [
+          "TypeError: Cannot read property 'name' of null",
+          "    at onPress (address at index.android.bundle:1:12345)",
+          "    at render (index.android.bundle:40:30)",
+        ].join("\n"),
+        bundle,
+      );
+      expect(stack.map((f) => f.file)).deep.equal([
+        `${bundle.id}/hermes.js`,
+        `${bundle.id}.js`,
+      ]);
+      expect(stub.loaded).deep.equal([`${bundle.id}/hermes`, bundle.id]);
+    });
+
+    it("should leave the frames without position untouched", async () => {
+      const sut = createServer();
+      const stub = stubSourceMaps(sut);
+      const stack: StackFrame[] = [{ file: "a", methodName: "foo" }];
+      const { stack: symbolicated } = await sut.symbolicate(
+        stack,
+        () => bundleA,
+      );
+      expect(symbolicated).deep.equal([{ ...stack[0], collapse: false }]);
+      expect(stub.loaded).empty;
+    });
+
+    describe("Metro response", () => {
+      const sources = {
+        "node_modules/react-native/Libraries/Renderer/ReactNativeRenderer.js": [
+          "function invokeGuardedCallback(fn) {",
+          "  fn();",
+          "}",
+        ].join("\n"),
+        "src/App.js": [
+          "import React from 'react';",
+          "",
+          "export function App() {",
+          "  const onPress = () => {",
+          "    const user = null;",
+          "    return user.name;",
+          "  };",
+          "  return onPress;",
+          "}",
+        ].join("\n"),
+      };
+      // Maps bundle lines to original positions
+      const positions = {
+        1: { column: 16, line: 6, name: "name", source: "src/App.js" },
+        2: { column: 2, line: 2, name: null, source: Object.keys(sources)[0] },
+        3: { column: 2, line: 4, name: null, source: "src/App.js" },
+      };
+
+      function createMetroServer(config: BundleStoreServerUserConfig = {}) {
+        const sut = createServer({ ...config, rootPath: createTmpDir() });
+        sut.loadSourceMap = async () => ({
+          consumer: {
+            destroy: () => undefined,
+            originalPositionFor: ({ line }) => positions[line],
+            sourceContentFor: (source) => sources[source] || null,
+          } as any,
+          size: 100,
+        });
+        return sut;
+      }
+
+      const stack: StackFrame[] = [
+        { column: 1, file: "a", lineNumber: 2, methodName: "b" },
+        { column: 1, file: "a", lineNumber: 1, methodName: "c" },
+        { column: 1, file: "a", lineNumber: 3, methodName: "d" },
+      ];
+
+      it("should collapse the frames of React Native internals", async () => {
+        const sut = createMetroServer();
+        const symbolicated = await sut.symbolicate(stack, () => bundleA);
+        expect(symbolicated.stack.map((f) => f.collapse)).deep.equal([
+          true,
+          false,
+          false,
+        ]);
+      });
+
+      it("should collapse the frames matching the configured patterns", async () => {
+        const sut = createMetroServer({ collapseFramePatterns: ["^src/"] });
+        const symbolicated = await sut.symbolicate(stack, () => bundleA);
+        expect(symbolicated.stack.map((f) => f.collapse)).deep.equal([
+          false,
+          true,
+          true,
+        ]);
+      });
+
+      it("should use the original names of the frames", async () => {
+        const sut = createMetroServer();
+        const symbolicated = await sut.symbolicate(stack, () => bundleA);
+        expect(symbolicated.stack.map((f) => f.methodName)).deep.equal([
+          "b",
+          "name",
+          "d",
+        ]);
+      });
+
+      it("should build the code frame of the first frame not collapsed", async () => {
+        const sut = createMetroServer();
+        const symbolicated = await sut.symbolicate(stack, () => bundleA);
+        expect(symbolicated.codeFrame).deep.equal({
+          content: [
+            "  4 |   const onPress = () => {",
+            "  5 |     const user = null;",
+            "> 6 |     return user.name;",
+            "    |                 ^",
+            "  7 |   };",
+            "  8 |   return onPress;",
+            "  9 | }",
+          ].join("\n"),
+          fileName: "src/App.js",
+          location: { column: 16, row: 6 },
+        });
+      });
+
+      it("should not build a code frame without source content", async () => {
+        const sut = createServer();
+        stubSourceMaps(sut);
+        const symbolicated = await sut.symbolicate(stack, () => bundleA);
+        expect(symbolicated.codeFrame).null;
+      });
+    });
+  });
+
   describe("addBundleToStore", () => {
-    it("should add the bundle to the store", () => {
+    it("should add the bundle to the store", async () => {
       const tmpDir = createTmpDir();
       const store: Store = {
         accessKey: "11122bee-9a90-4158-9205-6759751d80dd",
@@ -214,7 +741,7 @@ describe("server", () => {
         },
         rootPath: tmpDir,
       });
-      sut.addBundleToStore(store, bundle);
+      await sut.addBundleToStore(store, bundle);
       expect(
         sut.db.hasBundle({
           bundleId: bundle.id,
@@ -223,7 +750,7 @@ describe("server", () => {
       ).true;
     });
 
-    it("should delete oldest bundle and source map file if needed", () => {
+    it("should delete oldest bundle and source map file if needed", async () => {
       const tmpDir = createTmpDir();
       shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
       const store: Store = {
@@ -254,18 +781,20 @@ describe("server", () => {
         maxBundles: 1,
         rootPath: tmpDir,
       });
-      sut.addBundleToStore(store, bundle);
-      const oldBundlePath = sut.getPathToBundle(
+      await sut.addBundleToStore(store, bundle);
+      const oldBundlePath = path.join(
+        sut.config.paths.bundles,
         "9e122bee-9a90-4158-9205-6759751d80dd",
       );
-      const oldSourceMapPath = sut.getPathToSourceMap(
+      const oldSourceMapPath = path.join(
+        sut.config.paths.sourcemaps,
         "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
       );
       expect(fs.existsSync(oldBundlePath)).false;
       expect(fs.existsSync(oldSourceMapPath)).false;
     });
 
-    it("should remove oldest bundle from the store if needed", () => {
+    it("should remove oldest bundle from the store if needed", async () => {
       const tmpDir = createTmpDir();
       const store: Store = {
         accessKey: "11122bee-9a90-4158-9205-6759751d80dd",
@@ -295,7 +824,7 @@ describe("server", () => {
         maxBundles: 1,
         rootPath: tmpDir,
       });
-      sut.addBundleToStore(store, bundle);
+      await sut.addBundleToStore(store, bundle);
       expect(
         sut.db.hasBundle({
           bundleId: "9e122bee-9a90-4158-9205-6759751d80dd",
@@ -311,118 +840,833 @@ describe("server", () => {
     });
   });
 
-  describe("getPathToBundle", () => {
-    it("should return correct path", () => {
-      const sut = createServer();
-      const bundleId = "9e122bee-9a90-4158-9205-6759751d80dd";
-      const pathToBundle = path.join(sut.config.paths.bundles, bundleId);
-      expect(sut.getPathToBundle(bundleId)).equal(pathToBundle);
+  describe("retention", () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = 1600000000000;
+
+    function bundle(id: string, platform: Platform, ageInDays: number) {
+      return {
+        hash: id.padEnd(64, "0"),
+        id,
+        platform,
+        size: 100,
+        sourceMap: id.padEnd(64, "1"),
+        timestamp: now - ageInDays * day,
+      };
+    }
+
+    function createStore(labels: Label[] = []): Store {
+      return {
+        bundles: [
+          bundle("a1", "android", 40),
+          bundle("i1", "ios", 35),
+          bundle("a2", "android", 20),
+          bundle("a3", "android", 10),
+          bundle("i2", "ios", 5),
+          bundle("a4", "android", 1),
+        ],
+        id: "mystore",
+        labels,
+      };
+    }
+
+    const evicted = (evictions: Eviction[]) =>
+      evictions.map((e) => [e.bundleId, e.reason]);
+
+    it("should keep the last bundles of each platform", () => {
+      const sut = createServer({ rootPath: createTmpDir() });
+      expect(
+        evicted(sut.selectBundlesToEvict(createStore(), { keepLast: 2 }, now)),
+      ).deep.equal([["a1", "count"], ["a2", "count"]]);
     });
-  });
 
-  describe("getPathToSourceMap", () => {
-    it("should return correct path", () => {
-      const sut = createServer();
-      const sourceMapId = "4a1aaa5b-89ae-477f-b6d7-9747131750d7";
-      const pathToSourceMap = path.join(
-        sut.config.paths.sourcemaps,
-        sourceMapId,
-      );
-      expect(sut.getPathToSourceMap(sourceMapId)).equal(pathToSourceMap);
+    it("should keep the bundles younger than the given number of days", () => {
+      const sut = createServer({ rootPath: createTmpDir() });
+      expect(
+        evicted(sut.selectBundlesToEvict(createStore(), { keepDays: 15 }, now)),
+      ).deep.equal([["a1", "age"], ["i1", "age"], ["a2", "age"]]);
     });
-  });
 
-  describe("unzipAssets", () => {
-    it("should unzip the assets", async () => {
-      const sut = createServer();
-      const tmpDir = createTmpDir();
-      const tmpOutDir = createTmpDir();
-      const assetsZipPath = path.join(tmpDir, "assets.zip");
-      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
-      await sut.unzipAssets(assetsZipPath, tmpOutDir);
+    it("should keep the bundles kept by any rule", () => {
+      const sut = createServer({ rootPath: createTmpDir() });
       expect(
-        fs.existsSync(path.join(tmpOutDir, "47ce6e77f039020ee2e76a10c1e988e9")),
-      ).true;
+        evicted(
+          sut.selectBundlesToEvict(
+            createStore(),
+            { keepDays: 15, keepLast: 3 },
+            now,
+          ),
+        ),
+      ).deep.equal([["a1", "age"]]);
+    });
+
+    it("should evict the oldest bundles exceeding the maximum total bytes", () => {
+      const sut = createServer({ rootPath: createTmpDir() });
       expect(
-        fs.existsSync(
-          path.join(tmpOutDir, "47ce6e77f039020ee2e76a10c1e988e9", "logo.png"),
+        evicted(
+          sut.selectBundlesToEvict(createStore(), { maxTotalBytes: 350 }, now),
         ),
-      ).true;
+      ).deep.equal([["a1", "size"], ["i1", "size"], ["a2", "size"]]);
     });
 
-    it("should return the assets hashes", async () => {
-      const sut = createServer();
-      const tmpDir = createTmpDir();
-      const tmpOutDir = createTmpDir();
-      const assetsZipPath = path.join(tmpDir, "assets.zip");
-      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
-      const hashes = await sut.unzipAssets(assetsZipPath, tmpOutDir);
-      expect(hashes).deep.equal([
-        "ffc71969f5f0d7b4142f729a755bc50a",
-        "f6264846f4b8b90b34bbccf0c0ec38b1",
-        "47ce6e77f039020ee2e76a10c1e988e9",
+    it("should never evict labeled bundles nor the latest bundle of a platform", () => {
+      const sut = createServer({ rootPath: createTmpDir() });
+      const store = createStore([
+        { bundleId: "a1", name: "qa", platform: "android", timestamp: now },
       ]);
+      expect(
+        evicted(sut.selectBundlesToEvict(store, { keepLast: 0 }, now)),
+      ).deep.equal([["i1", "count"], ["a2", "count"], ["a3", "count"]]);
     });
 
-    it("should delete the assets zip once done", async () => {
-      const sut = createServer();
-      const tmpDir = createTmpDir();
-      const tmpOutDir = createTmpDir();
-      const assetsZipPath = path.join(tmpDir, "assets.zip");
-      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
-      await sut.unzipAssets(assetsZipPath, tmpOutDir);
-      expect(fs.existsSync(assetsZipPath)).false;
+    it("should never evict pinned bundles", () => {
+      const sut = createServer({ rootPath: createTmpDir() });
+      const store = createStore();
+      store.bundles[0].pinned = true;
+      expect(
+        evicted(sut.selectBundlesToEvict(store, { maxTotalBytes: 0 }, now)),
+      ).deep.equal([["i1", "size"], ["a2", "size"], ["a3", "size"]]);
     });
-  });
 
-  describe("integration tests", () => {
-    describe("GET /status", () => {
-      it("should return HTTP 200", (done) => {
-        const sut = createServer();
-        chai
-          .request(sut.app)
-          .get("/status")
-          .end((err, res) => {
-            expect(res).to.have.status(200);
-            done();
-          });
+    it("should not evict any bundle of a store without retention policy", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: { assets: {}, stores: { mystore: createStore() } },
+        rootPath: createTmpDir(),
       });
+      expect(await sut.applyRetentionPolicy("mystore")).deep.equal([]);
+      expect(sut.db.getStore("mystore").bundles).length(6);
+    });
 
-      it("should return 'packager-status:running' text", (done) => {
-        const sut = createServer();
-        chai
-          .request(sut.app)
-          .get("/status")
-          .end((err, res) => {
-            if (err) {
-              return done(err);
-            }
-            expect(res.text).eql("packager-status:running");
-            done();
-          });
+    it("should only report the bundles to evict in dry run mode", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: {
+          assets: {},
+          stores: { mystore: { ...createStore(), retention: { keepLast: 1 } } },
+        },
+        rootPath: createTmpDir(),
       });
-
-      it("should use chunked Transfer-Encoding", (done) => {
-        const sut = createServer();
-        chai
-          .request(sut.app)
-          .get("/status")
-          .end((err, res) => {
-            if (err) {
-              return done(err);
-            }
-            expect(res).to.have.header("Transfer-Encoding", "chunked");
-            done();
-          });
+      const evictions = await sut.applyRetentionPolicy("mystore", {
+        dryRun: true,
       });
+      expect(evictions).length(4);
+      expect(sut.db.getStore("mystore").bundles).length(6);
     });
 
-    describe("GET /assets/*", () => {
-      it("should return HTTP 404 if asset is not found", (done) => {
-        const sut = createServer();
-        chai
-          .request(sut.app)
-          .get(
+    it("should evict the bundles and their blobs", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: {
+          assets: {},
+          stores: { mystore: { ...createStore(), retention: { keepLast: 1 } } },
+        },
+        rootPath: createTmpDir(),
+      });
+      const a1 = sut.db.getBundle({ bundleId: "a1", storeId: "mystore" });
+      await sut.blobStore.put(`bundles/${a1.hash}`, Buffer.from("a"));
+      await sut.blobStore.put(`sourcemaps/${a1.sourceMap}`, Buffer.from("b"));
+      const evictions = await sut.sweepStores();
+      expect(evictions.map((e) => e.bundleId)).deep.equal([
+        "a1",
+        "i1",
+        "a2",
+        "a3",
+      ]);
+      expect(sut.db.getStore("mystore").bundles.map((b) => b.id)).deep.equal([
+        "i2",
+        "a4",
+      ]);
+      expect(await sut.blobStore.list("")).deep.equal([]);
+    });
+
+    it("should apply the retention policy when adding a bundle", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: {
+          assets: {},
+          stores: { mystore: { ...createStore(), retention: { keepLast: 2 } } },
+        },
+        rootPath: createTmpDir(),
+      });
+      await sut.addBundleToStore(
+        sut.db.getStore("mystore"),
+        bundle("a5", "android", 0),
+      );
+      expect(sut.db.getStore("mystore").bundles.map((b) => b.id)).deep.equal([
+        "i1",
+        "i2",
+        "a4",
+        "a5",
+      ]);
+    });
+
+    it("should evict the latest bundle of a platform to honor maxBundles", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: {
+          assets: {},
+          stores: {
+            mystore: createStore(),
+          },
+        },
+        maxBundles: 1,
+        rootPath: createTmpDir(),
+      });
+      await sut.addBundleToStore(
+        sut.db.getStore("mystore"),
+        bundle("a5", "android", 0),
+      );
+      expect(sut.db.getStore("mystore").bundles.map((b) => b.id)).deep.equal([
+        "a5",
+      ]);
+    });
+
+    it("should not evict labeled bundles to honor maxBundles", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: {
+          assets: {},
+          stores: {
+            mystore: createStore([
+              {
+                bundleId: "a1",
+                name: "qa",
+                platform: "android",
+                timestamp: now,
+              },
+            ]),
+          },
+        },
+        maxBundles: 5,
+        rootPath: createTmpDir(),
+      });
+      await sut.addBundleToStore(
+        sut.db.getStore("mystore"),
+        bundle("a5", "android", 0),
+      );
+      expect(sut.db.getStore("mystore").bundles.map((b) => b.id)).deep.equal([
+        "a1",
+        "a3",
+        "i2",
+        "a4",
+        "a5",
+      ]);
+    });
+
+    it("should not evict the added bundle when the other bundles are pinned or labeled", async () => {
+      const store: Store = {
+        bundles: [
+          { ...bundle("a1", "android", 10), pinned: true },
+          bundle("i1", "ios", 5),
+        ],
+        id: "mystore",
+        labels: [
+          {
+            bundleId: "i1",
+            name: "qa",
+            platform: "ios",
+            timestamp: now,
+          },
+        ],
+      };
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: {
+          assets: {},
+          stores: {
+            mystore: store,
+          },
+        },
+        maxBundles: 2,
+        rootPath: createTmpDir(),
+      });
+      await sut.addBundleToStore(
+        sut.db.getStore("mystore"),
+        bundle("a5", "android", 0),
+      );
+      expect(sut.db.getStore("mystore").bundles.map((b) => b.id)).deep.equal([
+        "a1",
+        "i1",
+        "a5",
+      ]);
+    });
+  });
+
+  describe("getBundleBlobKey", () => {
+    it("should return correct key", () => {
+      const sut = createServer();
+      const bundleId = "9e122bee-9a90-4158-9205-6759751d80dd";
+      expect(sut.getBundleBlobKey(bundleId)).equal(`bundles/${bundleId}`);
+    });
+  });
+
+  describe("getSourceMapBlobKey", () => {
+    it("should return correct key", () => {
+      const sut = createServer();
+      const sourceMapId = "4a1aaa5b-89ae-477f-b6d7-9747131750d7";
+      expect(sut.getSourceMapBlobKey(sourceMapId)).equal(
+        `sourcemaps/${sourceMapId}`,
+      );
+    });
+  });
+
+  describe("getAssetBlobKey", () => {
+    it("should return correct key", () => {
+      const sut = createServer();
+      expect(
+        sut.getAssetBlobKey("47ce6e77f039020ee2e76a10c1e988e9", "logo.png"),
+      ).equal("assets/47ce6e77f039020ee2e76a10c1e988e9/logo.png");
+    });
+  });
+
+  describe("delBundleBlobs", () => {
+    it("should delete the bundle and source map blobs", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      const bundle: Bundle = {
+        id: "9e122bee-9a90-4158-9205-6759751d80dd",
+        platform: "android",
+        sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+        timestamp: 1565981244558,
+      };
+      await sut.blobStore.put(`bundles/${bundle.id}`, Buffer.from("a"));
+      await sut.blobStore.put(
+        `sourcemaps/${bundle.sourceMap}`,
+        Buffer.from("b"),
+      );
+      await sut.delBundleBlobs(bundle);
+      expect(await sut.blobStore.list("")).deep.equal([]);
+    });
+
+    it("should keep the blobs referenced by another bundle", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      const bundle: Bundle = {
+        hash:
+          "2c26b46b68ffc68ff99b453c1d30413413422d706483bfa0f98a5e886266e7ae",
+        id: "9e122bee-9a90-4158-9205-6759751d80dd",
+        platform: "android",
+        sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+        timestamp: 1565981244558,
+      };
+      sut.db.createStore("dummy");
+      sut.db.addBundle({
+        bundle: { ...bundle, id: "de0f2684-b070-4560-a01b-1a3fbc33d735" },
+        storeId: "dummy",
+      });
+      await sut.blobStore.put(`bundles/${bundle.hash}`, Buffer.from("a"));
+      await sut.blobStore.put(
+        `sourcemaps/${bundle.sourceMap}`,
+        Buffer.from("b"),
+      );
+      await sut.delBundleBlobs(bundle);
+      expect(await sut.blobStore.list("")).length(2);
+    });
+  });
+
+  describe("delBundle", () => {
+    it("should not delete a labeled bundle", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      sut.db.createStore("mystore");
+      const bundle: Bundle = {
+        id: "9e122bee-9a90-4158-9205-6759751d80dd",
+        platform: "android",
+        sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+        timestamp: 1565981244558,
+      };
+      sut.db.addBundle({ bundle, storeId: "mystore" });
+      sut.db.setLabel({
+        bundleId: bundle.id,
+        name: "qa",
+        platform: "android",
+        storeId: "mystore",
+      });
+      let error: any;
+      try {
+        await sut.delBundle({ bundleId: bundle.id, storeId: "mystore" });
+      } catch (err) {
+        error = err;
+      }
+      expect(error).instanceOf(ConflictError);
+      expect(sut.db.hasBundle({ bundleId: bundle.id, storeId: "mystore" }))
+        .true;
+    });
+
+    it("should delete the assets no longer used by any bundle", async () => {
+      const sharedAsset = "47ce6e77f039020ee2e76a10c1e988e9";
+      const ownAsset = "70d6fbba5502a18a0c052b6f6cb3fc32";
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: {
+          assets: { [ownAsset]: {}, [sharedAsset]: {} },
+          stores: {
+            mystore: {
+              bundles: [
+                {
+                  assets: [sharedAsset, ownAsset],
+                  id: "9e122bee-9a90-4158-9205-6759751d80dd",
+                  platform: "android",
+                  sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+                  timestamp: 1565981244558,
+                },
+                {
+                  assets: [sharedAsset],
+                  id: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+                  platform: "ios",
+                  sourceMap: "24f0e611-5af7-49d9-bb11-5fa055c3c460",
+                  timestamp: 1565981271727,
+                },
+              ],
+              id: "mystore",
+            },
+          },
+        },
+        rootPath: createTmpDir(),
+      });
+      await sut.blobStore.put(`assets/${sharedAsset}/a.png`, Buffer.from("a"));
+      await sut.blobStore.put(`assets/${ownAsset}/b.png`, Buffer.from("b"));
+      await sut.delBundle({
+        bundleId: "9e122bee-9a90-4158-9205-6759751d80dd",
+        storeId: "mystore",
+      });
+      expect(Object.keys(sut.db.getAssets())).deep.equal([sharedAsset]);
+      expect(await sut.blobStore.has(`assets/${sharedAsset}/a.png`)).true;
+      expect(await sut.blobStore.has(`assets/${ownAsset}/b.png`)).false;
+    });
+  });
+
+  describe("delUnusedAssets", () => {
+    it("should not delete the assets of a bundle being uploaded", async () => {
+      const asset = "47ce6e77f039020ee2e76a10c1e988e9";
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        dbSeed: { assets: { [asset]: {} }, stores: {} },
+        rootPath: createTmpDir(),
+      });
+      await sut.blobStore.put(`assets/${asset}/a.png`, Buffer.from("a"));
+      await sut.withPendingBlobs(async (markPending) => {
+        markPending([sut.getAssetBlobKeyPrefix(asset)]);
+        expect(await sut.delUnusedAssets([asset])).deep.equal([]);
+      });
+      expect(await sut.blobStore.has(`assets/${asset}/a.png`)).true;
+      expect(await sut.delUnusedAssets([asset])).deep.equal([asset]);
+      expect(await sut.blobStore.has(`assets/${asset}/a.png`)).false;
+    });
+  });
+
+  describe("countBlobReferences", () => {
+    it("should count the bundles referencing a blob across stores", () => {
+      const sut = createServer();
+      sut.db.createStore("a");
+      sut.db.createStore("b");
+      const bundle: Bundle = {
+        hash:
+          "2c26b46b68ffc68ff99b453c1d30413413422d706483bfa0f98a5e886266e7ae",
+        id: "9e122bee-9a90-4158-9205-6759751d80dd",
+        platform: "android",
+        sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+        timestamp: 1565981244558,
+      };
+      sut.db.addBundle({ bundle, storeId: "a" });
+      sut.db.addBundle({ bundle, storeId: "b" });
+      expect(sut.countBlobReferences(`bundles/${bundle.hash}`)).equal(2);
+      expect(sut.countBlobReferences(`bundles/${bundle.id}`)).equal(0);
+      expect(sut.countBlobReferences(`sourcemaps/${bundle.sourceMap}`)).equal(
+        2,
+      );
+    });
+  });
+
+  describe("withPendingBlobs", () => {
+    it("should keep the blobs being uploaded from being deleted", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      await sut.withPendingBlobs(async (markPending) => {
+        markPending(["bundles/pending"]);
+        await sut.blobStore.put("bundles/pending", Buffer.from("pending"));
+        expect(sut.countBlobReferences("bundles/pending")).equal(1);
+        expect(await sut.getOrphanedBlobs()).deep.equal([]);
+        await sut.delUnreferencedBlob("bundles/pending");
+        expect(await sut.blobStore.has("bundles/pending")).true;
+      });
+      expect(sut.countBlobReferences("bundles/pending")).equal(0);
+      expect(await sut.getOrphanedBlobs()).deep.equal(["bundles/pending"]);
+    });
+
+    it("should clear the marks of a failed upload", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      await sut
+        .withPendingBlobs(async (markPending) => {
+          markPending(["bundles/pending"]);
+          throw new Error("boom");
+        })
+        .then(() => expect.fail(), (err) => expect(err.message).equal("boom"));
+      expect(sut.countBlobReferences("bundles/pending")).equal(0);
+    });
+  });
+
+  describe("collectAssetGarbage", () => {
+    const usedAsset = "47ce6e77f039020ee2e76a10c1e988e9";
+    const unusedAsset = "70d6fbba5502a18a0c052b6f6cb3fc32";
+    const recentAsset = "ffc71969f5f0d7b4142f729a755bc50a";
+
+    async function createGcServer() {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      sut.db.createStore("mystore");
+      sut.db.addBundle({
+        bundle: {
+          assets: [usedAsset],
+          id: "9e122bee-9a90-4158-9205-6759751d80dd",
+          platform: "android",
+          sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+          timestamp: 1565981244558,
+        },
+        storeId: "mystore",
+      });
+      sut.db.createAssets([usedAsset, unusedAsset], 1565981244558);
+      sut.db.createAssets([recentAsset]);
+      for (const asset of [usedAsset, unusedAsset, recentAsset]) {
+        await sut.blobStore.put(`assets/${asset}/img.png`, Buffer.from("img"));
+        await sut.blobStore.put(
+          `assets/${asset}/img@2x.png`,
+          Buffer.from("2x"),
+        );
+      }
+      return sut;
+    }
+
+    it("should delete the old assets not used by any bundle", async () => {
+      const sut = await createGcServer();
+      expect(await sut.collectAssetGarbage()).deep.equal({
+        bytes: 5,
+        collected: [unusedAsset],
+      });
+      expect(Object.keys(sut.db.getAssets())).not.include(unusedAsset);
+      expect(await sut.blobStore.list(`assets/${unusedAsset}/`)).empty;
+      expect(await sut.blobStore.list(`assets/${usedAsset}/`)).length(2);
+      expect(await sut.blobStore.list(`assets/${recentAsset}/`)).length(2);
+    });
+
+    it("should delete the recent assets if minAge is 0", async () => {
+      const sut = await createGcServer();
+      const { collected } = await sut.collectAssetGarbage({ minAge: 0 });
+      expect(collected).deep.equal([unusedAsset, recentAsset]);
+    });
+
+    it("should not delete anything in dry run", async () => {
+      const sut = await createGcServer();
+      const { collected } = await sut.collectAssetGarbage({ dryRun: true });
+      expect(collected).deep.equal([unusedAsset]);
+      expect(Object.keys(sut.db.getAssets())).include(unusedAsset);
+      expect(await sut.blobStore.list(`assets/${unusedAsset}/`)).length(2);
+    });
+
+    it("should not delete the assets of an upload in progress", async () => {
+      const sut = await createGcServer();
+      await sut.withPendingBlobs(async (markPending) => {
+        markPending([sut.getAssetBlobKeyPrefix(unusedAsset)]);
+        expect((await sut.collectAssetGarbage()).collected).empty;
+      });
+      expect(await sut.blobStore.list(`assets/${unusedAsset}/`)).length(2);
+      const { collected } = await sut.collectAssetGarbage();
+      expect(collected).deep.equal([unusedAsset]);
+    });
+
+    it("should extract the assets of bundles without manifest", async () => {
+      const sut = await createGcServer();
+      const bundleId = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+      sut.db.addBundle({
+        bundle: {
+          id: bundleId,
+          platform: "android",
+          sourceMap: "f7117cff-efc8-4201-a297-6e571f309c2c",
+          timestamp: 1565980792572,
+        },
+        storeId: "mystore",
+      });
+      await sut.blobStore.put(
+        `bundles/${bundleId}`,
+        Buffer.from(
+          `m.exports=r(d[0]).registerAsset({"scales":[1,2],"hash":"${unusedAsset}","name":"img"})`,
+        ),
+      );
+      const { collected } = await sut.collectAssetGarbage();
+      expect(collected).empty;
+    });
+  });
+
+  describe("getAssetHash", () => {
+    it("should hash the asset files in ascending order of scale", () => {
+      const sut = createServer();
+      const assetDir = path.join(
+        storeFixturePath,
+        "assets/70d6fbba5502a18a0c052b6f6cb3fc32",
+      );
+      const files = ["img@3x.png", "img.png", "img@2x.png"].map((name) => ({
+        data: fs.readFileSync(path.join(assetDir, name)),
+        name,
+      }));
+      expect(sut.getAssetHash(files)).equal("70d6fbba5502a18a0c052b6f6cb3fc32");
+    });
+  });
+
+  describe("unzipAssets", () => {
+    it("should unzip the assets", async () => {
+      const sut = createServer();
+      const tmpDir = createTmpDir();
+      const assetsZipPath = path.join(tmpDir, "assets.zip");
+      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
+      await sut.unzipAssets(assetsZipPath);
+      expect(
+        fs.existsSync(
+          path.join(
+            sut.config.paths.assets,
+            "47ce6e77f039020ee2e76a10c1e988e9",
+          ),
+        ),
+      ).true;
+      expect(
+        fs.existsSync(
+          path.join(
+            sut.config.paths.assets,
+            "47ce6e77f039020ee2e76a10c1e988e9",
+            "logo.png",
+          ),
+        ),
+      ).true;
+    });
+
+    it("should store the assets in the blob store", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      const tmpDir = createTmpDir();
+      const assetsZipPath = path.join(tmpDir, "assets.zip");
+      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
+      await sut.unzipAssets(assetsZipPath);
+      expect(
+        await sut.blobStore.has(
+          "assets/47ce6e77f039020ee2e76a10c1e988e9/logo.png",
+        ),
+      ).true;
+    });
+
+    it("should return the assets hashes", async () => {
+      const sut = createServer();
+      const tmpDir = createTmpDir();
+      const assetsZipPath = path.join(tmpDir, "assets.zip");
+      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
+      const hashes = await sut.unzipAssets(assetsZipPath);
+      expect(hashes).deep.equal([
+        "ffc71969f5f0d7b4142f729a755bc50a",
+        "f6264846f4b8b90b34bbccf0c0ec38b1",
+        "47ce6e77f039020ee2e76a10c1e988e9",
+      ]);
+    });
+
+    it("should mark all the extracted assets as pending", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      const stored = "47ce6e77f039020ee2e76a10c1e988e9";
+      sut.db.createAssets([stored]);
+      await sut.blobStore.put(
+        `assets/${stored}/logo.png`,
+        fs.readFileSync(
+          path.join(storeFixturePath, `assets/${stored}/logo.png`),
+        ),
+      );
+      const assetsZipPath = path.join(createTmpDir(), "assets.zip");
+      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
+      await sut.withPendingBlobs(async (markPending) => {
+        await sut.unzipAssets(assetsZipPath, markPending);
+        expect(await sut.delUnusedAssets([stored])).deep.equal([]);
+      });
+      expect(await sut.blobStore.has(`assets/${stored}/logo.png`)).true;
+      expect(await sut.delUnusedAssets([stored])).deep.equal([stored]);
+    });
+
+    it("should delete the assets zip once done", async () => {
+      const sut = createServer();
+      const tmpDir = createTmpDir();
+      const assetsZipPath = path.join(tmpDir, "assets.zip");
+      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
+      await sut.unzipAssets(assetsZipPath);
+      expect(fs.existsSync(assetsZipPath)).false;
+    });
+
+    async function unzipFixture(
+      sut: BundleStoreServer,
+      fixture: string,
+    ): Promise<any> {
+      const assetsZipPath = path.join(createTmpDir(), fixture);
+      shell.cp(path.join(fixturesPath, fixture), assetsZipPath);
+      try {
+        await sut.unzipAssets(assetsZipPath);
+      } catch (err) {
+        expect(fs.existsSync(assetsZipPath)).false;
+        return err;
+      }
+      throw new Error("expected unzipAssets to be rejected");
+    }
+
+    it("should reject entries escaping their asset directory", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      const error = await unzipFixture(sut, "assets-traversal.zip");
+      expect(error).instanceOf(ValidationError);
+      expect(error.code).equal("INVALID_ASSETS_ARCHIVE");
+      expect(await sut.blobStore.list("assets/")).empty;
+    });
+
+    it("should reject symbolic links", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      const error = await unzipFixture(sut, "assets-symlink.zip");
+      expect(error).instanceOf(ValidationError);
+      expect(error.code).equal("INVALID_ASSETS_ARCHIVE");
+      expect(await sut.blobStore.list("assets/")).empty;
+    });
+
+    it("should reject files that are not zip files", async () => {
+      const sut = createServer();
+      const error = await unzipFixture(sut, "index.bundle");
+      expect(error.code).equal("INVALID_ASSETS_ARCHIVE");
+    });
+
+    it("should reject archives exceeding the maximum size", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        maxAssetsSize: 30000,
+        rootPath: createTmpDir(),
+      });
+      const error = await unzipFixture(sut, "assets.zip");
+      expect(error).instanceOf(PayloadTooLargeError);
+      expect(error.code).equal("ASSETS_TOO_LARGE");
+      expect(await sut.blobStore.list("assets/")).empty;
+    });
+
+    it("should reject assets whose content does not match their hash", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      const error = await unzipFixture(sut, "assets-mismatch.zip");
+      expect(error).instanceOf(ValidationError);
+      expect(error.code).equal("ASSET_HASH_MISMATCH");
+      expect(error.details.hash).equal("47ce6e77f039020ee2e76a10c1e988e9");
+      expect(await sut.blobStore.list("assets/")).empty;
+    });
+
+    it("should reject assets conflicting with an existing asset", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        rootPath: createTmpDir(),
+      });
+      const logoKey = "assets/47ce6e77f039020ee2e76a10c1e988e9/logo.png";
+      await sut.blobStore.put(
+        logoKey,
+        fs.readFileSync(path.join(storeFixturePath, logoKey)),
+      );
+      const error = await unzipFixture(sut, "assets-conflict.zip");
+      expect(error).instanceOf(ConflictError);
+      expect(error.code).equal("ASSET_CONFLICT");
+      expect(await sut.blobStore.list("assets/")).deep.equal([logoKey]);
+    });
+
+    it("should accept the assets that are already stored", async () => {
+      const sut = createServer();
+      const tmpDir = createTmpDir();
+      const assetsZipPath = path.join(tmpDir, "assets.zip");
+      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
+      await sut.unzipAssets(assetsZipPath);
+      shell.cp(path.join(fixturesPath, "assets.zip"), assetsZipPath);
+      expect(await sut.unzipAssets(assetsZipPath)).length(3);
+    });
+
+    it("should reject archives exceeding the maximum number of files", async () => {
+      const sut = createServer({
+        blobStore: { type: "memory" },
+        maxAssetsEntries: 4,
+        rootPath: createTmpDir(),
+      });
+      const error = await unzipFixture(sut, "assets.zip");
+      expect(error).instanceOf(PayloadTooLargeError);
+      expect(error.code).equal("TOO_MANY_ASSETS");
+      expect(await sut.blobStore.list("assets/")).empty;
+    });
+  });
+
+  describe("integration tests", () => {
+    describe("GET /status", () => {
+      it("should return HTTP 200", (done) => {
+        const sut = createServer();
+        chai
+          .request(sut.app)
+          .get("/status")
+          .end((err, res) => {
+            expect(res).to.have.status(200);
+            done();
+          });
+      });
+
+      it("should return 'packager-status:running' text", (done) => {
+        const sut = createServer();
+        chai
+          .request(sut.app)
+          .get("/status")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res.text).eql("packager-status:running");
+            done();
+          });
+      });
+
+      it("should use chunked Transfer-Encoding", (done) => {
+        const sut = createServer();
+        chai
+          .request(sut.app)
+          .get("/status")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.header("Transfer-Encoding", "chunked");
+            done();
+          });
+      });
+    });
+
+    describe("GET /assets/*", () => {
+      it("should return HTTP 404 if asset is not found", (done) => {
+        const sut = createServer();
+        chai
+          .request(sut.app)
+          .get(
             "/assets/img/notfound.png?platform=android&hash=6efcef727ae7b1a1408e7085efec5df9",
           )
           .end((err, res) => {
@@ -434,264 +1678,2664 @@ describe("server", () => {
           });
       });
 
-      it("should return the asset if found", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        const expectedAsset = fs.readFileSync(
-          path.join(
-            storeFixturePath,
-            "assets",
-            "70d6fbba5502a18a0c052b6f6cb3fc32",
-            "img@2x.png",
-          ),
-        );
+      it("should return the asset if found", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const expectedAsset = fs.readFileSync(
+          path.join(
+            storeFixturePath,
+            "assets",
+            "70d6fbba5502a18a0c052b6f6cb3fc32",
+            "img@2x.png",
+          ),
+        );
+        chai
+          .request(sut.app)
+          .get(
+            "/assets/img/img@2x.png?platform=android&hash=70d6fbba5502a18a0c052b6f6cb3fc32",
+          )
+          .buffer(true)
+          .parse(binaryParser)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(Buffer.compare(res.body, expectedAsset)).equal(0);
+            done();
+          });
+      });
+    });
+
+    describe("POST /symbolicate", () => {
+      const bundleA = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+      const bundleB = "9e122bee-9a90-4158-9205-6759751d80dd";
+
+      function createSymbolicationServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        sut.db.createStore("other");
+        sut.db.addBundle({
+          bundle: {
+            id: "2bd1c4a1-3a6e-4d5e-9b0c-7f0c8e2d6a41",
+            platform: "ios",
+            sourceMap: "b3a5a1a2-5d1c-4d5e-9b0c-7f0c8e2d6a41",
+            timestamp: 1565981244558,
+          },
+          storeId: "other",
+        });
+        return sut;
+      }
+
+      const frame = (file: string, lineNumber: number) => ({
+        column: 1,
+        file,
+        lineNumber,
+        methodName: "foo",
+      });
+
+      it("should symbolicate the frames of several bundles and stores", async () => {
+        const sut = createSymbolicationServer();
+        const stub = stubSourceMaps(sut);
+        const stack = [
+          frame(
+            `http://localhost:3000/bundles/dummy/android/${bundleA}/index.bundle`,
+            10,
+          ),
+          frame(
+            `http://localhost:3000/bundles/dummy/android/latest/index.bundle`,
+            20,
+          ),
+          frame(
+            "http://localhost:3000/bundles/other/ios/latest/index.bundle",
+            30,
+          ),
+          frame("http://localhost:8081/index.bundle?platform=android", 40),
+          frame(
+            `http://localhost:3000/bundles/dummy/android/${bundleA}/index.bundle`,
+            50,
+          ),
+        ];
+        const res = await chai
+          .request(sut.app)
+          .post("/symbolicate")
+          .set("Content-Type", "text/plain")
+          .send(JSON.stringify({ stack }));
+        expect(res).to.have.status(200);
+        expect(JSON.parse(res.text).stack.map((f) => f.file)).deep.equal([
+          `${bundleA}.js`,
+          `${bundleB}.js`,
+          "2bd1c4a1-3a6e-4d5e-9b0c-7f0c8e2d6a41.js",
+          "http://localhost:8081/index.bundle?platform=android",
+          `${bundleA}.js`,
+        ]);
+        expect(stub.loaded).length(3);
+      });
+
+      it("should validate the access to the store of each bundle", async () => {
+        const sut = createSymbolicationServer();
+        stubSourceMaps(sut);
+        sut.db.setStorePrivate({ isPrivate: true, storeId: "other" });
+        const stack = [
+          frame(
+            `http://localhost:3000/bundles/dummy/android/${bundleA}/index.bundle`,
+            10,
+          ),
+          frame(
+            "http://localhost:3000/bundles/other/ios/latest/index.bundle",
+            30,
+          ),
+        ];
+        const res = await chai
+          .request(sut.app)
+          .post("/symbolicate")
+          .set("Content-Type", "text/plain")
+          .send(JSON.stringify({ stack }));
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("MISSING_ACCESS_KEY");
+      });
+    });
+
+    describe("POST /symbolicate/:storeId/:platform/:bundleId", () => {
+      const bundleA = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+
+      function createSymbolicationServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        return createServer({ rootPath: tmpDir });
+      }
+
+      it("should symbolicate all the frames with the source map of the bundle", async () => {
+        const sut = createSymbolicationServer();
+        stubSourceMaps(sut);
+        const res = await chai
+          .request(sut.app)
+          .post(`/symbolicate/dummy/android/${bundleA}`)
+          .send({
+            stack: [
+              {
+                column: 5,
+                file: "index.android.bundle",
+                lineNumber: 7,
+                methodName: "foo",
+              },
+              { column: 5, lineNumber: 9, methodName: "bar" },
+            ],
+          });
+        expect(res).to.have.status(200);
+        expect(res.body.codeFrame).null;
+        expect(res.body.stack).deep.equal([
+          {
+            collapse: false,
+            column: 4,
+            file: `${bundleA}.js`,
+            lineNumber: 6,
+            methodName: "foo",
+          },
+          {
+            collapse: false,
+            column: 4,
+            file: `${bundleA}.js`,
+            lineNumber: 8,
+            methodName: "bar",
+          },
+        ]);
+      });
+
+      it("should return HTTP 400 if the stack is missing", async () => {
+        const sut = createSymbolicationServer();
+        const res = await chai
+          .request(sut.app)
+          .post(`/symbolicate/dummy/android/${bundleA}`)
+          .send({});
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_STACK");
+      });
+
+      it("should return HTTP 404 if the bundle does not exist", async () => {
+        const sut = createSymbolicationServer();
+        const res = await chai
+          .request(sut.app)
+          .post(
+            "/symbolicate/dummy/android/11111111-2b02-4774-bb78-5de4b7dc73b8",
+          )
+          .send({ stack: [] });
+        expect(res).to.have.status(404);
+      });
+
+      it("should return HTTP 400 without access key for a private store", async () => {
+        const sut = createSymbolicationServer();
+        sut.db.setStorePrivate({ isPrivate: true, storeId: "dummy" });
+        const res = await chai
+          .request(sut.app)
+          .post(`/symbolicate/dummy/android/${bundleA}`)
+          .send({ stack: [] });
+        expect(res).to.have.status(400);
+      });
+    });
+
+    describe("POST /symbolicate/:storeId/:platform/:bundleId/crash-log", () => {
+      const bundleA = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+
+      function createSymbolicationServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        return createServer({ rootPath: tmpDir });
+      }
+
+      it("should symbolicate the stack trace of the crash log", async () => {
+        const sut = createSymbolicationServer();
+        stubSourceMaps(sut);
+        const res = await chai
+          .request(sut.app)
+          .post(`/symbolicate/dummy/android/${bundleA}/crash-log`)
+          .set("Content-Type", "text/plain")
+          .send(
+            [
+              "E/ReactNativeJS( 4567): TypeError: undefined is not a function",
+              "E/ReactNativeJS( 4567): onPress@7:5",
+              "E/ReactNativeJS( 4567): [native code]",
+            ].join("\n"),
+          );
+        expect(res).to.have.status(200);
+        expect(res.body).deep.equal({
+          codeFrame: null,
+          message: "TypeError: undefined is not a function",
+          stack: [
+            {
+              collapse: false,
+              column: 4,
+              file: `${bundleA}.js`,
+              lineNumber: 6,
+              methodName: "onPress",
+            },
+            { collapse: false, methodName: "<unknown>" },
+          ],
+          text: [
+            "TypeError: undefined is not a function",
+            `    at onPress (${bundleA}.js:6:4)`,
+            "    at <unknown> (native)",
+          ].join("\n"),
+        });
+      });
+
+      it("should return HTTP 400 if the crash log has no stack frame", async () => {
+        const sut = createSymbolicationServer();
+        const res = await chai
+          .request(sut.app)
+          .post(`/symbolicate/dummy/android/${bundleA}/crash-log`)
+          .set("Content-Type", "text/plain")
+          .send("Something went wrong");
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_CRASH_LOG");
+      });
+
+      it("should return HTTP 400 if the crash log is missing", async () => {
+        const sut = createSymbolicationServer();
+        const res = await chai
+          .request(sut.app)
+          .post(`/symbolicate/dummy/android/${bundleA}/crash-log`)
+          .send({});
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_CRASH_LOG");
+      });
+    });
+
+    describe("GET /bundles/:storeId/:platform/:bundleId/index.bundle", () => {
+      it("should return HTTP 404 if the store does not exist", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get(
+            "/bundles/unkstore/android/790f95fd-2b02-4774-bb78-5de4b7dc73b8/index.bundle",
+          )
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("should return HTTP 404 if the bundle does not exist", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get(
+            "/bundles/dummy/android/11111111-2b02-4774-bb78-5de4b7dc73b8/index.bundle",
+          )
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("should return the bundle [specific id]", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const expectedBundle = fs.readFileSync(
+          path.join(
+            storeFixturePath,
+            "bundles",
+            "9e122bee-9a90-4158-9205-6759751d80dd",
+          ),
+        );
+        chai
+          .request(sut.app)
+          .get(
+            "/bundles/dummy/android/9e122bee-9a90-4158-9205-6759751d80dd/index.bundle",
+          )
+          .buffer(true)
+          .parse(binaryParser)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(Buffer.compare(res.body, expectedBundle)).equal(0);
+            done();
+          });
+      });
+
+      it("should return the bundle [latest]", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const expectedBundle = fs.readFileSync(
+          path.join(
+            storeFixturePath,
+            "bundles",
+            "9e122bee-9a90-4158-9205-6759751d80dd",
+          ),
+        );
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android/latest/index.bundle")
+          .buffer(true)
+          .parse(binaryParser)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(Buffer.compare(res.body, expectedBundle)).equal(0);
+            done();
+          });
+      });
+
+      it("should set Content-Type header to application/javascript in response", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const expectedBundle = fs.readFileSync(
+          path.join(
+            storeFixturePath,
+            "bundles",
+            "9e122bee-9a90-4158-9205-6759751d80dd",
+          ),
+        );
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android/latest/index.bundle")
+          .buffer(true)
+          .parse(binaryParser)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res.header["content-type"]).equal("application/javascript");
+            done();
+          });
+      });
+    });
+
+    describe("GET /bundles/:storeId/:platform/:bundleId/index.map", () => {
+      it("should return HTTP 404 if the store does not exist", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get(
+            "/bundles/unkstore/android/790f95fd-2b02-4774-bb78-5de4b7dc73b8/index.map",
+          )
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("should return HTTP 404 if the source map does not exist", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get(
+            "/bundles/dummy/android/11111111-2b02-4774-bb78-5de4b7dc73b8/index.map",
+          )
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("should return the source map [specific id]", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const expectedSourceMap = fs.readFileSync(
+          path.join(
+            storeFixturePath,
+            "sourcemaps",
+            "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+          ),
+        );
+        chai
+          .request(sut.app)
+          .get(
+            "/bundles/dummy/android/9e122bee-9a90-4158-9205-6759751d80dd/index.map",
+          )
+          .buffer(true)
+          .parse(binaryParser)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(Buffer.compare(res.body, expectedSourceMap)).equal(0);
+            done();
+          });
+      });
+
+      it("should return the source map [latest]", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const expectedSourceMap = fs.readFileSync(
+          path.join(
+            storeFixturePath,
+            "sourcemaps",
+            "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+          ),
+        );
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android/latest/index.map")
+          .buffer(true)
+          .parse(binaryParser)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(Buffer.compare(res.body, expectedSourceMap)).equal(0);
+            done();
+          });
+      });
+    });
+
+    describe("integrity", () => {
+      const bundleId = "9e122bee-9a90-4158-9205-6759751d80dd";
+
+      function sha256(data: Buffer) {
+        return crypto
+          .createHash("sha256")
+          .update(data)
+          .digest();
+      }
+
+      async function uploadBundle() {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+        });
+        const { accessKey } = sut.db.createStore("mystore");
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/mystore/android")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey!)
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        return { bundle: res.body as Bundle, sut };
+      }
+
+      it("should store the SHA-256 of the uploaded bundle", async () => {
+        const { bundle } = await uploadBundle();
+        const expected = sha256(
+          fs.readFileSync(path.join(fixturesPath, "index.bundle")),
+        );
+        expect(bundle.hash).equal(expected.toString("hex"));
+      });
+
+      it("should set the ETag and Digest headers of the bundle", async () => {
+        const { bundle, sut } = await uploadBundle();
+        const res = await chai
+          .request(sut.app)
+          .get(`/bundles/mystore/android/${bundle.id}/index.bundle`)
+          .set("Accept-Encoding", "identity")
+          .buffer(true)
+          .parse(binaryParser);
+        expect(res).to.have.status(200);
+        expect(res.header.etag).equal(`"${bundle.hash}"`);
+        expect(res.header.digest).equal(
+          `SHA-256=${sha256(res.body).toString("base64")}`,
+        );
+      });
+
+      it("should set the ETag and Digest headers of the source map", async () => {
+        const { bundle, sut } = await uploadBundle();
+        const res = await chai
+          .request(sut.app)
+          .get("/bundles/mystore/android/latest/index.map")
+          .buffer(true)
+          .parse(binaryParser);
+        expect(res).to.have.status(200);
+        expect(res.header.etag).equal(`"${bundle.sourceMap}"`);
+        expect(res.header.digest).equal(
+          `SHA-256=${sha256(res.body).toString("base64")}`,
+        );
+      });
+
+      it("should return HTTP 304 if the bundle matches If-None-Match", async () => {
+        const { bundle, sut } = await uploadBundle();
+        const res = await chai
+          .request(sut.app)
+          .get("/bundles/mystore/android/latest/index.bundle")
+          .set("Accept-Encoding", "identity")
+          .set("If-None-Match", `"${bundle.hash}"`);
+        expect(res).to.have.status(304);
+      });
+
+      it("should return the bundle if it does not match If-None-Match", async () => {
+        const { sut } = await uploadBundle();
+        const res = await chai
+          .request(sut.app)
+          .get("/bundles/mystore/android/latest/index.bundle")
+          .set("If-None-Match", '"outdated"')
+          .buffer(true)
+          .parse(binaryParser);
+        expect(res).to.have.status(200);
+      });
+
+      it("should compute the ETag of bundles uploaded without hash", async () => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const expected = sha256(
+          fs.readFileSync(path.join(storeFixturePath, "bundles", bundleId)),
+        ).toString("hex");
+        const res = await chai
+          .request(sut.app)
+          .get(`/bundles/dummy/android/${bundleId}/index.bundle`)
+          .set("If-None-Match", `"${expected}"`);
+        expect(res).to.have.status(304);
+        expect(res.header.etag).equal(`"${expected}"`);
+      });
+    });
+
+    describe("compression", () => {
+      async function uploadBundle() {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+        });
+        const { accessKey } = sut.db.createStore("mystore");
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/mystore/android")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey!)
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        return { bundle: res.body as Bundle, sut };
+      }
+
+      function getBundle(sut: BundleStoreServer, acceptEncoding: string) {
+        return chai
+          .request(sut.app)
+          .get("/bundles/mystore/android/latest/index.bundle")
+          .set("Accept-Encoding", acceptEncoding)
+          .buffer(true)
+          .parse(binaryParser);
+      }
+
+      const expectedBundle = fs.readFileSync(
+        path.join(fixturesPath, "index.bundle"),
+      );
+
+      it("should store the precompressed variants of the uploaded bundle", async () => {
+        const { bundle, sut } = await uploadBundle();
+        expect(bundle.encodings).deep.equal(["br", "gzip"]);
+        const br = await sut.blobStore.get(`bundles/${bundle.hash}.br`);
+        const gz = await sut.blobStore.get(`bundles/${bundle.hash}.gz`);
+        expect(
+          Buffer.compare(zlib.brotliDecompressSync(br), expectedBundle),
+        ).equal(0);
+        expect(Buffer.compare(zlib.gunzipSync(gz), expectedBundle)).equal(0);
+      });
+
+      it("should send the brotli variant if accepted", async () => {
+        const { bundle, sut } = await uploadBundle();
+        const res = await getBundle(sut, "gzip, deflate, br");
+        expect(res).to.have.status(200);
+        expect(res.header["content-encoding"]).equal("br");
+        expect(res.header.vary).equal("Accept-Encoding");
+        expect(res.header.etag).equal(`"${bundle.hash}-br"`);
+        expect(
+          Buffer.compare(zlib.brotliDecompressSync(res.body), expectedBundle),
+        ).equal(0);
+      });
+
+      it("should send the gzip variant if preferred", async () => {
+        const { sut } = await uploadBundle();
+        const res = await getBundle(sut, "br;q=0.5, gzip");
+        expect(res.header["content-encoding"]).equal("gzip");
+        expect(Buffer.compare(res.body, expectedBundle)).equal(0);
+      });
+
+      it("should send the bundle as is if no variant is accepted", async () => {
+        const { sut } = await uploadBundle();
+        const res = await getBundle(sut, "deflate");
+        expect(res.header["content-encoding"]).undefined;
+        expect(Buffer.compare(res.body, expectedBundle)).equal(0);
+      });
+
+      it("should send a byte range of the bundle", async () => {
+        const { sut } = await uploadBundle();
+        const res = await getBundle(sut, "identity").set("Range", "bytes=2-5");
+        expect(res).to.have.status(206);
+        expect(res.header["content-range"]).equal(
+          `bytes 2-5/${expectedBundle.length}`,
+        );
+        expect(Buffer.compare(res.body, expectedBundle.slice(2, 6))).equal(0);
+      });
+
+      it("should return HTTP 416 for an unsatisfiable range", async () => {
+        const { sut } = await uploadBundle();
+        const res = await getBundle(sut, "identity").set(
+          "Range",
+          `bytes=${expectedBundle.length + 10}-`,
+        );
+        expect(res).to.have.status(416);
+        expect(res.header["content-range"]).equal(
+          `bytes */${expectedBundle.length}`,
+        );
+      });
+
+      it("should ignore the range if If-Range does not match the ETag", async () => {
+        const { sut } = await uploadBundle();
+        const res = await getBundle(sut, "identity")
+          .set("Range", "bytes=2-5")
+          .set("If-Range", '"outdated"');
+        expect(res).to.have.status(200);
+        expect(Buffer.compare(res.body, expectedBundle)).equal(0);
+      });
+    });
+
+    describe("POST /bundles/:storeId/:platform", () => {
+      it("shoud return HTTP 400 is the acces key is missing", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const bundleRs = fs.createReadStream(
+          path.join(fixturesPath, "index.bundle"),
+        );
+        const sourceMapRs = fs.createReadStream(
+          path.join(fixturesPath, "index.map"),
+        );
+        chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .attach("bundle", bundleRs)
+          .attach("sourcemap", sourceMapRs)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(400);
+            done();
+          });
+      });
+
+      it("shoud return HTTP 403 is the acces key is not the store access key", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const bundleRs = fs.createReadStream(
+          path.join(fixturesPath, "index.bundle"),
+        );
+        const sourceMapRs = fs.createReadStream(
+          path.join(fixturesPath, "index.map"),
+        );
+        chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "11111111-d35d-43de-baa9-332e8e44f083",
+          )
+          .attach("bundle", bundleRs)
+          .attach("sourcemap", sourceMapRs)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(403);
+            done();
+          });
+      });
+
+      it("shoud return HTTP 404 is the store does not exist", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const bundleRs = fs.createReadStream(
+          path.join(fixturesPath, "index.bundle"),
+        );
+        const sourceMapRs = fs.createReadStream(
+          path.join(fixturesPath, "index.map"),
+        );
+        chai
+          .request(sut.app)
+          .post("/bundles/unkstore/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .attach("bundle", bundleRs)
+          .attach("sourcemap", sourceMapRs)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("shoud add the bundle and the source map to the store", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const bundleRs = fs.createReadStream(
+          path.join(fixturesPath, "index.bundle"),
+        );
+        const sourceMapRs = fs.createReadStream(
+          path.join(fixturesPath, "index.map"),
+        );
+        chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .attach("bundle", bundleRs)
+          .attach("sourcemap", sourceMapRs)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.be.json;
+            expect(res.body.id).not.undefined;
+            expect(res.body.sourceMap).not.undefined;
+            done();
+          });
+      });
+
+      it("shoud store the bundle metadata", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const metadata = {
+          commit: "2f8b3a1",
+          tags: { env: "staging" },
+          version: "1.2.0",
+        };
+        chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .field("metadata", JSON.stringify(metadata))
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"))
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res.body.metadata).deep.equal(metadata);
+            expect(
+              sut.db.getBundle({ bundleId: res.body.id, storeId: "dummy" })
+                .metadata,
+            ).deep.equal(metadata);
+            done();
+          });
+      });
+
+      it("shoud store the assets manifest of the bundle", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const assets = ["47ce6e77f039020ee2e76a10c1e988e9"];
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .field("assets", JSON.stringify(assets))
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        expect(res).to.have.status(201);
+        expect(res.body.assets).deep.equal(assets);
+        expect(
+          sut.db.getBundle({ bundleId: res.body.id, storeId: "dummy" }).assets,
+        ).deep.equal(assets);
+      });
+
+      it("shoud not purge the blobs of the bundle being uploaded", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const put = sut.blobStore.put.bind(sut.blobStore);
+        let purged: string[] = [];
+        sut.blobStore.put = async (key, data) => {
+          await put(key, data);
+          // Purge once all the blobs are written, before the bundle is added
+          if (key.endsWith(".gz")) {
+            purged = await sut.purgeOrphanedBlobs();
+          }
+        };
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        expect(res).to.have.status(201);
+        expect(purged).deep.equal([]);
+        for (const key of Object.values(sut.getBundleBlobKeys(res.body))) {
+          expect(await sut.blobStore.has(key)).true;
+        }
+      });
+
+      it("shoud extract the assets manifest from the bundle if not provided", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        expect(res).to.have.status(201);
+        expect(res.body.assets).deep.equal([]);
+      });
+
+      it("shoud return HTTP 400 if the assets manifest cannot be extracted from the bundle", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .attach(
+            "bundle",
+            Buffer.from(
+              `__d(function(g,r,i,a,m,e,d){m.exports=r(d[0]).registerAsset({scales:[1],hash:n,name:"logo"})},14,[13]);`,
+            ),
+            "index.bundle",
+          )
+          .attach(
+            "sourcemap",
+            Buffer.from(
+              JSON.stringify({
+                mappings: "AAAA",
+                names: [],
+                sources: ["src/App.js"],
+                version: 3,
+              }),
+            ),
+            "index.map",
+          );
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("MISSING_ASSETS");
+      });
+
+      describe("Hermes bytecode bundles", () => {
+        const hbcBundle = Buffer.concat([
+          Buffer.from([0xc6, 0x1f, 0xbc, 0x03, 0xc1, 0x03, 0x19, 0x1f]),
+          Buffer.from([0x4a, 0x00, 0x00, 0x00, 0xff, 0x00, 0x01, 0x02]),
+        ]);
+        const hbcSourceMap = Buffer.from(
+          JSON.stringify({
+            mappings: "AAAA,oBAAA",
+            names: [],
+            sources: ["src/App.js"],
+            version: 3,
+          }),
+        );
+
+        function uploadHbcBundle(sut: BundleStoreServer, assets?: string[]) {
+          const req = chai
+            .request(sut.app)
+            .post("/bundles/dummy/android")
+            .set(
+              "ERN-BUNDLE-STORE-ACCESS-KEY",
+              "f85152bd-d35d-43de-baa9-332e8e44f083",
+            );
+          if (assets) {
+            req.field("assets", JSON.stringify(assets));
+          }
+          return req
+            .attach("bundle", hbcBundle, "index.android.bundle.hbc")
+            .attach("sourcemap", hbcSourceMap, "index.android.bundle.map");
+        }
+
+        it("should store the bundle along with its format", async () => {
+          const tmpDir = createTmpDir();
+          shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+          const sut = createServer({ rootPath: tmpDir });
+          const res = await uploadHbcBundle(sut, []);
+          expect(res).to.have.status(201);
+          expect(res.body.format).equal("hbc");
+          const download = await chai
+            .request(sut.app)
+            .get(`/bundles/dummy/android/${res.body.id}/index.bundle`)
+            .set("Accept-Encoding", "identity")
+            .buffer(true)
+            .parse(binaryParser);
+          expect(download).to.have.status(200);
+          expect(download.header["content-type"]).equal(
+            "application/x-hermes-bytecode",
+          );
+          expect(download.body).deep.equal(hbcBundle);
+        });
+
+        it("should return HTTP 400 if the assets manifest is missing", async () => {
+          const tmpDir = createTmpDir();
+          shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+          const sut = createServer({ rootPath: tmpDir });
+          const res = await uploadHbcBundle(sut);
+          expect(res).to.have.status(400);
+          expect(res.body.code).equal("MISSING_ASSETS");
+          expect(sut.db.getStore("dummy").bundles).length(2);
+        });
+
+        describe("along with a JS bundle", () => {
+          const jsBundle = fs.readFileSync(
+            path.join(fixturesPath, "index.bundle"),
+          );
+
+          function hash(data: Buffer) {
+            return crypto
+              .createHash("sha256")
+              .update(data)
+              .digest("hex");
+          }
+
+          function uploadJsAndHbcBundles(
+            sut: BundleStoreServer,
+            hbc: Buffer = hbcBundle,
+          ) {
+            return chai
+              .request(sut.app)
+              .post("/bundles/dummy/android")
+              .set(
+                "ERN-BUNDLE-STORE-ACCESS-KEY",
+                "f85152bd-d35d-43de-baa9-332e8e44f083",
+              )
+              .attach("bundle", jsBundle, "index.android.bundle")
+              .attach("sourcemap", path.join(fixturesPath, "index.map"))
+              .attach("hbc", hbc, "index.android.bundle.hbc")
+              .attach("hbcsourcemap", hbcSourceMap, "index.android.bundle.map");
+          }
+
+          function download(sut: BundleStoreServer, urlPath: string) {
+            return chai
+              .request(sut.app)
+              .get(`/bundles/dummy/android/${urlPath}`)
+              .set("Accept-Encoding", "identity")
+              .buffer(true)
+              .parse(binaryParser);
+          }
+
+          it("should store both artifacts", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const res = await uploadJsAndHbcBundles(sut);
+            expect(res).to.have.status(201);
+            expect(res.body.format).equal("js");
+            expect(res.body.hermes).deep.equal({
+              hash: hash(hbcBundle),
+              sourceMap: hash(hbcSourceMap),
+            });
+            expect(res.body.size).equal(
+              jsBundle.length +
+                fs.statSync(path.join(fixturesPath, "index.map")).size +
+                hbcBundle.length +
+                hbcSourceMap.length,
+            );
+            for (const key of Object.values(sut.getBundleBlobKeys(res.body))) {
+              expect(await sut.blobStore.has(key)).true;
+            }
+          });
+
+          it("should send the JS bundle by default", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const { body } = await uploadJsAndHbcBundles(sut);
+            const res = await download(sut, `${body.id}/index.bundle`);
+            expect(res).to.have.status(200);
+            expect(res.header["content-type"]).match(
+              /^application\/javascript/,
+            );
+            expect(res.header.vary).match(/Accept(,|$)/);
+            expect(res.body).deep.equal(jsBundle);
+          });
+
+          it("should send the Hermes bytecode if requested by the format query parameter", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const { body } = await uploadJsAndHbcBundles(sut);
+            const res = await download(
+              sut,
+              `${body.id}/index.bundle?format=hbc`,
+            );
+            expect(res).to.have.status(200);
+            expect(res.header["content-type"]).equal(
+              "application/x-hermes-bytecode",
+            );
+            expect(res.header.etag).equal(`"${hash(hbcBundle)}"`);
+            expect(res.body).deep.equal(hbcBundle);
+          });
+
+          it("should send the Hermes bytecode if preferred by the Accept header", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const { body } = await uploadJsAndHbcBundles(sut);
+            const res = await download(sut, `${body.id}/index.bundle`).set(
+              "Accept",
+              "application/x-hermes-bytecode, application/javascript;q=0.5",
+            );
+            expect(res).to.have.status(200);
+            expect(res.body).deep.equal(hbcBundle);
+          });
+
+          it("should send the source map of the Hermes bytecode", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const { body } = await uploadJsAndHbcBundles(sut);
+            const res = await download(sut, `${body.id}/index.map?format=hbc`);
+            expect(res).to.have.status(200);
+            expect(res.body).deep.equal(hbcSourceMap);
+          });
+
+          it("should return HTTP 404 if the bundle has no Hermes bytecode", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const res = await chai
+              .request(sut.app)
+              .get(
+                "/bundles/dummy/android/790f95fd-2b02-4774-bb78-5de4b7dc73b8/index.bundle?format=hbc",
+              );
+            expect(res).to.have.status(404);
+            expect(res.body.code).equal("BUNDLE_FORMAT_NOT_FOUND");
+          });
+
+          it("should return HTTP 400 if the format is unknown", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const res = await chai
+              .request(sut.app)
+              .get(
+                "/bundles/dummy/android/790f95fd-2b02-4774-bb78-5de4b7dc73b8/index.bundle?format=wasm",
+              );
+            expect(res).to.have.status(400);
+            expect(res.body.code).equal("INVALID_FORMAT");
+          });
+
+          it("should return HTTP 400 if the hbc file is not Hermes bytecode", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const res = await uploadJsAndHbcBundles(sut, jsBundle);
+            expect(res).to.have.status(400);
+            expect(res.body.code).equal("INVALID_HBC");
+            expect(sut.db.getStore("dummy").bundles).length(2);
+          });
+
+          it("should return HTTP 400 if the source map of the Hermes bytecode is missing", async () => {
+            const tmpDir = createTmpDir();
+            shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+            const sut = createServer({ rootPath: tmpDir });
+            const res = await chai
+              .request(sut.app)
+              .post("/bundles/dummy/android")
+              .set(
+                "ERN-BUNDLE-STORE-ACCESS-KEY",
+                "f85152bd-d35d-43de-baa9-332e8e44f083",
+              )
+              .attach("bundle", jsBundle, "index.android.bundle")
+              .attach("sourcemap", path.join(fixturesPath, "index.map"))
+              .attach("hbc", hbcBundle, "index.android.bundle.hbc");
+            expect(res).to.have.status(400);
+            expect(res.body.code).equal("MISSING_SOURCEMAP");
+          });
+        });
+
+        it("should record the format of JS bundles", async () => {
+          const tmpDir = createTmpDir();
+          shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+          const sut = createServer({ rootPath: tmpDir });
+          const res = await chai
+            .request(sut.app)
+            .post("/bundles/dummy/android")
+            .set(
+              "ERN-BUNDLE-STORE-ACCESS-KEY",
+              "f85152bd-d35d-43de-baa9-332e8e44f083",
+            )
+            .attach("bundle", path.join(fixturesPath, "index.bundle"))
+            .attach("sourcemap", path.join(fixturesPath, "index.map"));
+          expect(res).to.have.status(201);
+          expect(res.body.format).equal("js");
+        });
+      });
+
+      it("shoud return HTTP 400 if the assets manifest is invalid", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .field("assets", `{"logo":"47ce6e77f039020ee2e76a10c1e988e9"}`)
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_ASSETS");
+        expect(sut.db.getStore("dummy").bundles).length(2);
+      });
+
+      it("shoud return HTTP 400 if the metadata is invalid", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .field("metadata", `{"version":1}`)
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"))
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(400);
+            expect(res.body.code).equal("INVALID_METADATA");
+            expect(sut.db.getStore("dummy").bundles).length(2);
+            done();
+          });
+      });
+
+      it("shoud return HTTP 201", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const bundleRs = fs.createReadStream(
+          path.join(fixturesPath, "index.bundle"),
+        );
+        const sourceMapRs = fs.createReadStream(
+          path.join(fixturesPath, "index.map"),
+        );
+        chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .attach("bundle", bundleRs)
+          .attach("sourcemap", sourceMapRs)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(201);
+            done();
+          });
+      });
+    });
+
+    describe("upload validation", () => {
+      const bundle = fs.readFileSync(path.join(fixturesPath, "index.bundle"));
+      const sourceMap = fs.readFileSync(path.join(fixturesPath, "index.map"));
+
+      const upload = async ({
+        bundleData = bundle,
+        config = {},
+        platform = "android",
+        sourceMapData = sourceMap,
+      }: {
+        bundleData?: Buffer;
+        config?: BundleStoreServerUserConfig;
+        platform?: string;
+        sourceMapData?: Buffer;
+      }) => {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+          ...config,
+        });
+        const { accessKey } = sut.db.createStore("mystore");
+        const res = await chai
+          .request(sut.app)
+          .post(`/bundles/mystore/${platform}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey!)
+          .attach("bundle", bundleData, "index.bundle")
+          .attach("sourcemap", sourceMapData, "index.map");
+        return { res, sut };
+      };
+
+      it("should return HTTP 400 if the platform is unknown", async () => {
+        const { res } = await upload({ platform: "windows" });
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_PLATFORM");
+      });
+
+      it("should return HTTP 400 if the bundle is missing", async () => {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+        });
+        const { accessKey } = sut.db.createStore("mystore");
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/mystore/android")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey!)
+          .attach("sourcemap", sourceMap, "index.map");
+        expect(res).to.have.status(400);
+        expect(res.body).deep.equal({
+          code: "MISSING_BUNDLE",
+          message: "bundle file is missing",
+        });
+      });
+
+      it("should return HTTP 400 if the bundle is empty", async () => {
+        const { res } = await upload({ bundleData: Buffer.alloc(0) });
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("EMPTY_BUNDLE");
+      });
+
+      it("should return HTTP 400 if the bundle is not a javascript file", async () => {
+        const { res } = await upload({
+          bundleData: Buffer.from([0xc6, 0x1f, 0xbc, 0x03, 0x00, 0x01]),
+        });
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_BUNDLE");
+      });
+
+      it("should return HTTP 400 if the source map is not valid JSON", async () => {
+        const { res } = await upload({ sourceMapData: Buffer.from("{") });
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_SOURCEMAP");
+      });
+
+      it("should return HTTP 400 if the source map is not a version 3 source map", async () => {
+        const { res } = await upload({
+          sourceMapData: Buffer.from(JSON.stringify({ version: 2 })),
+        });
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_SOURCEMAP");
+      });
+
+      it("should return HTTP 400 if the source map does not match the bundle", async () => {
+        const { res } = await upload({
+          sourceMapData: Buffer.from(
+            JSON.stringify({
+              mappings: "AAAA;".repeat(100),
+              names: [],
+              sources: ["index.js"],
+              version: 3,
+            }),
+          ),
+        });
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("SOURCEMAP_MISMATCH");
+      });
+
+      it("should return HTTP 413 if the bundle exceeds the maximum size", async () => {
+        const { res, sut } = await upload({
+          config: { maxBundleSize: bundle.length - 1 },
+        });
+        expect(res).to.have.status(413);
+        expect(res.body.code).equal("BUNDLE_TOO_LARGE");
+        expect(await sut.blobStore.list("")).deep.equal([]);
+      });
+
+      it("should return HTTP 413 if the source map exceeds the maximum size", async () => {
+        const { res } = await upload({
+          config: { maxSourceMapSize: sourceMap.length - 1 },
+        });
+        expect(res).to.have.status(413);
+        expect(res.body.code).equal("SOURCEMAP_TOO_LARGE");
+      });
+
+      it("should accept a bundle within the size limits", async () => {
+        const { res, sut } = await upload({
+          config: {
+            maxBundleSize: bundle.length,
+            maxSourceMapSize: sourceMap.length,
+          },
+        });
+        expect(res).to.have.status(201);
+        expect(sut.db.getStore("mystore").bundles).length(1);
+      });
+
+      it("should not store the blobs of an invalid upload", async () => {
+        const { sut } = await upload({ sourceMapData: Buffer.from("{") });
+        expect(await sut.blobStore.list("")).deep.equal([]);
+      });
+    });
+
+    describe("blob store", () => {
+      it("should upload and download bundles through the blob store", (done) => {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+        });
+        const store = sut.db.createStore("mystore");
+        const expectedBundle = fs.readFileSync(
+          path.join(fixturesPath, "index.bundle"),
+        );
+        chai
+          .request(sut.app)
+          .post("/bundles/mystore/android")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", store.accessKey)
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"))
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            chai
+              .request(sut.app)
+              .get(`/bundles/mystore/android/${res.body.id}/index.bundle`)
+              .buffer(true)
+              .parse(binaryParser)
+              .end((e, r) => {
+                if (e) {
+                  return done(e);
+                }
+                expect(Buffer.compare(r.body, expectedBundle)).equal(0);
+                done();
+              });
+          });
+      });
+
+      it("should store identical uploads only once", async () => {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+        });
+        const { accessKey } = sut.db.createStore("mystore");
+        const upload = () =>
+          chai
+            .request(sut.app)
+            .post("/bundles/mystore/android")
+            .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey!)
+            .attach("bundle", path.join(fixturesPath, "index.bundle"))
+            .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        const first = await upload();
+        const second = await upload();
+        expect(second.body.id).not.equal(first.body.id);
+        expect(second.body.hash).equal(first.body.hash);
+        expect(second.body.sourceMap).equal(first.body.sourceMap);
+        expect(await sut.blobStore.list("bundles/")).deep.equal([
+          `bundles/${first.body.hash}`,
+          `bundles/${first.body.hash}.br`,
+          `bundles/${first.body.hash}.gz`,
+        ]);
+        expect(await sut.blobStore.list("sourcemaps/")).deep.equal([
+          `sourcemaps/${first.body.sourceMap}`,
+        ]);
+      });
+
+      it("should return HTTP 400 if the source map is missing", async () => {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+        });
+        const { accessKey } = sut.db.createStore("mystore");
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/mystore/android")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey!)
+          .attach("bundle", path.join(fixturesPath, "index.bundle"));
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("MISSING_SOURCEMAP");
+        expect(await sut.blobStore.list("")).deep.equal([]);
+      });
+
+      it("should keep the blobs referenced by another store when deleting a store", async () => {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+        });
+        const { accessKey } = sut.db.createStore("mystore");
+        sut.db.createStore("otherstore");
+        const bundle: Bundle = {
+          hash:
+            "2c26b46b68ffc68ff99b453c1d30413413422d706483bfa0f98a5e886266e7ae",
+          id: "9e122bee-9a90-4158-9205-6759751d80dd",
+          platform: "android",
+          sourceMap:
+            "fcde2b2edba56bf408601fb721fe9b5c338d10ee429ea04fae5511b68fbf8fb9",
+          timestamp: 1565981244558,
+        };
+        sut.db.addBundle({ bundle, storeId: "mystore" });
+        sut.db.addBundle({
+          bundle: { ...bundle, id: "de0f2684-b070-4560-a01b-1a3fbc33d735" },
+          storeId: "otherstore",
+        });
+        await sut.blobStore.put(`bundles/${bundle.hash}`, Buffer.from("a"));
+        await sut.blobStore.put(
+          `sourcemaps/${bundle.sourceMap}`,
+          Buffer.from("b"),
+        );
+        const res = await chai
+          .request(sut.app)
+          .delete("/stores/mystore")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey!);
+        expect(res).to.have.status(200);
+        expect(await sut.blobStore.list("")).length(2);
+      });
+
+      it("should delete the store blobs when deleting the store", (done) => {
+        const sut = createServer({
+          blobStore: { type: "memory" },
+          rootPath: createTmpDir(),
+        });
+        const store = sut.db.createStore("mystore");
+        const bundle: Bundle = {
+          id: "9e122bee-9a90-4158-9205-6759751d80dd",
+          platform: "android",
+          sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+          timestamp: 1565981244558,
+        };
+        sut.db.addBundle({ bundle, storeId: "mystore" });
+        Promise.all([
+          sut.blobStore.put(`bundles/${bundle.id}`, Buffer.from("a")),
+          sut.blobStore.put(`sourcemaps/${bundle.sourceMap}`, Buffer.from("b")),
+        ]).then(() => {
+          chai
+            .request(sut.app)
+            .delete("/stores/mystore")
+            .set("ERN-BUNDLE-STORE-ACCESS-KEY", store.accessKey)
+            .end((err, res) => {
+              if (err) {
+                return done(err);
+              }
+              sut.blobStore
+                .list("")
+                .then((keys) => {
+                  expect(keys).deep.equal([]);
+                  done();
+                })
+                .catch(done);
+            });
+        });
+      });
+    });
+
+    describe("GET /bundles/:storeId", () => {
+      it("should return HTTP 404 if the store does not exist", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get("/bundles/unkstore")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("should return HTTP 200", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            done();
+          });
+      });
+
+      it("should return the store bundles", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.be.json;
+            expect(res.body).to.be.an("array");
+            expect(res.body).deep.equal([
+              {
+                id: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+                platform: "android",
+                sourceMap: "f7117cff-efc8-4201-a297-6e571f309c2c",
+                timestamp: 1565980792572,
+              },
+              {
+                id: "9e122bee-9a90-4158-9205-6759751d80dd",
+                platform: "android",
+                sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+                timestamp: 1565981244558,
+              },
+            ]);
+            done();
+          });
+      });
+    });
+
+    describe("GET /bundles/:storeId?<filter>", () => {
+      function createServerWithMetadata() {
+        return createServer({
+          dbSeed: {
+            assets: {},
+            stores: {
+              dummy: {
+                accessKey: "f85152bd-d35d-43de-baa9-332e8e44f083",
+                bundles: [
+                  {
+                    id: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+                    metadata: { branch: "master", tags: { env: "qa" } },
+                    platform: "android",
+                    sourceMap: "f7117cff-efc8-4201-a297-6e571f309c2c",
+                    timestamp: 1565980792572,
+                  },
+                  {
+                    id: "9e122bee-9a90-4158-9205-6759751d80dd",
+                    metadata: { branch: "develop", tags: { env: "qa" } },
+                    platform: "ios",
+                    sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+                    timestamp: 1565981244558,
+                  },
+                ],
+                id: "dummy",
+              },
+            },
+          },
+          rootPath: createTmpDir(),
+        });
+      }
+
+      it("should return the bundles matching the filter", (done) => {
+        const sut = createServerWithMetadata();
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy?branch=develop")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res.body.map((b) => b.id)).deep.equal([
+              "9e122bee-9a90-4158-9205-6759751d80dd",
+            ]);
+            done();
+          });
+      });
+
+      it("should return the platform bundles matching the filter", (done) => {
+        const sut = createServerWithMetadata();
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android?tag=env:qa")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res.body.map((b) => b.id)).deep.equal([
+              "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+            ]);
+            done();
+          });
+      });
+
+      it("should return HTTP 400 if the filter is invalid", (done) => {
+        const sut = createServerWithMetadata();
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy?tag=qa")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(400);
+            done();
+          });
+      });
+
+      it("should return HTTP 400 if a tag filter is not a string", async () => {
+        const sut = createServerWithMetadata();
+        const res = await chai
+          .request(sut.app)
+          .get("/bundles/dummy?tag[env]=qa");
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_FILTER");
+      });
+    });
+
+    describe("GET /bundles/:storeId/:platform", () => {
+      it("should return HTTP 404 if the store does not exist", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get("/bundles/unkstore/android")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("should return HTTP 200", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            done();
+          });
+      });
+
+      it("should return the store bundles [android]", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.be.json;
+            expect(res.body).to.be.an("array");
+            expect(res.body).deep.equal([
+              {
+                id: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+                platform: "android",
+                sourceMap: "f7117cff-efc8-4201-a297-6e571f309c2c",
+                timestamp: 1565980792572,
+              },
+              {
+                id: "9e122bee-9a90-4158-9205-6759751d80dd",
+                platform: "android",
+                sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
+                timestamp: 1565981244558,
+              },
+            ]);
+            done();
+          });
+      });
+
+      it("should return the store bundles [ios]", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/ios")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.be.json;
+            expect(res.body).to.be.an("array");
+            expect(res.body).deep.equal([]);
+            done();
+          });
+      });
+    });
+
+    describe("labels", () => {
+      const accessKey = "f85152bd-d35d-43de-baa9-332e8e44f083";
+
+      function createServerWithLabel() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        sut.db.setLabel({
+          bundleId: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+          name: "qa",
+          platform: "android",
+          storeId: "dummy",
+        });
+        return sut;
+      }
+
+      it("GET /labels/:storeId should return the store labels", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .get("/labels/dummy")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            expect(res.body).length(1);
+            expect(res.body[0].name).equal("qa");
+            done();
+          });
+      });
+
+      it("GET /labels/:storeId/:platform should return the platform labels", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .get("/labels/dummy/ios")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res.body).deep.equal([]);
+            done();
+          });
+      });
+
+      it("GET /bundles/:storeId/:platform/:label/index.bundle should return the labeled bundle", (done) => {
+        const sut = createServerWithLabel();
+        const expectedBundle = fs.readFileSync(
+          path.join(
+            storeFixturePath,
+            "bundles",
+            "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+          ),
+        );
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android/qa/index.bundle")
+          .buffer(true)
+          .parse(binaryParser)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(Buffer.compare(res.body, expectedBundle)).equal(0);
+            done();
+          });
+      });
+
+      it("GET /bundles/:storeId/:platform/:label/index.map should return the labeled source map", (done) => {
+        const sut = createServerWithLabel();
+        const expectedSourceMap = fs.readFileSync(
+          path.join(
+            storeFixturePath,
+            "sourcemaps",
+            "f7117cff-efc8-4201-a297-6e571f309c2c",
+          ),
+        );
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android/qa/index.map")
+          .buffer(true)
+          .parse(binaryParser)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(Buffer.compare(res.body, expectedSourceMap)).equal(0);
+            done();
+          });
+      });
+
+      it("POST /labels/:storeId/:platform/:label should return HTTP 400 if the access key is missing", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .post("/labels/dummy/android/staging")
+          .send({ bundleId: "9e122bee-9a90-4158-9205-6759751d80dd" })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(400);
+            done();
+          });
+      });
+
+      it("POST /labels/:storeId/:platform/:label should create the label", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .post("/labels/dummy/android/staging")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey)
+          .send({ bundleId: "9e122bee-9a90-4158-9205-6759751d80dd" })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(201);
+            expect(res.body.bundleId).equal(
+              "9e122bee-9a90-4158-9205-6759751d80dd",
+            );
+            expect(
+              sut.db.hasLabel({
+                name: "staging",
+                platform: "android",
+                storeId: "dummy",
+              }),
+            ).true;
+            done();
+          });
+      });
+
+      it("POST /labels/:storeId/:platform/:label should return HTTP 409 if the label already exist", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .post("/labels/dummy/android/qa")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey)
+          .send({ bundleId: "9e122bee-9a90-4158-9205-6759751d80dd" })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(409);
+            expect(res.body.code).equal("LABEL_ALREADY_EXISTS");
+            done();
+          });
+      });
+
+      it("POST /labels/:storeId/:platform/:label should return HTTP 404 if the bundle does not exist", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .post("/labels/dummy/android/staging")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey)
+          .send({ bundleId: "11111111-2b02-4774-bb78-5de4b7dc73b8" })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("PUT /labels/:storeId/:platform/:label should move the label", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .put("/labels/dummy/android/qa")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey)
+          .send({ bundleId: "9e122bee-9a90-4158-9205-6759751d80dd" })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            expect(
+              sut.db.getLabel({
+                name: "qa",
+                platform: "android",
+                storeId: "dummy",
+              }).bundleId,
+            ).equal("9e122bee-9a90-4158-9205-6759751d80dd");
+            done();
+          });
+      });
+
+      it("PUT /labels/:storeId/:platform/:label should return HTTP 404 if the label does not exist", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .put("/labels/dummy/android/staging")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey)
+          .send({ bundleId: "9e122bee-9a90-4158-9205-6759751d80dd" })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("DELETE /labels/:storeId/:platform/:label should delete the label", (done) => {
+        const sut = createServerWithLabel();
+        chai
+          .request(sut.app)
+          .delete("/labels/dummy/android/qa")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", accessKey)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            expect(
+              sut.db.hasLabel({
+                name: "qa",
+                platform: "android",
+                storeId: "dummy",
+              }),
+            ).false;
+            done();
+          });
+      });
+    });
+
+    describe("POST /stores/:storeId", () => {
+      it("should return HTTP 409 if store id already exist", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .post("/stores/dummy")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(409);
+            expect(res.body).deep.equal({
+              code: "STORE_ALREADY_EXISTS",
+              details: { storeId: "dummy" },
+              message: "Store id dummy already exist in database.",
+            });
+            done();
+          });
+      });
+
+      it("should return HTTP 201", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        chai
+          .request(sut.app)
+          .post("/stores/newid")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(201);
+            done();
+          });
+      });
+
+      it("should return the created store", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        chai
+          .request(sut.app)
+          .post("/stores/newid")
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.be.json;
+            expect(res.body.id).equal("newid");
+            expect(res.body.accessKey).not.undefined;
+            done();
+          });
+      });
+    });
+
+    describe("DELETE /stores/:storeId", () => {
+      it("should return HTTP 404 if the store does not exist", (done) => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        chai
+          .request(sut.app)
+          .delete("/stores/unkstore")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("should return HTTP 200", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        chai
+          .request(sut.app)
+          .delete("/stores/dummy")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            done();
+          });
+      });
+
+      it("should delete the store", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        chai
+          .request(sut.app)
+          .delete("/stores/dummy")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(sut.db.hasStore("dummy")).false;
+            done();
+          });
+      });
+
+      it("should return the deleted store", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        chai
+          .request(sut.app)
+          .delete("/stores/dummy")
+          .set(
+            "ERN-BUNDLE-STORE-ACCESS-KEY",
+            "f85152bd-d35d-43de-baa9-332e8e44f083",
+          )
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.be.json;
+            expect(res.body.id).equal("dummy");
+            done();
+          });
+      });
+    });
+
+    describe("access keys", () => {
+      const adminKey = "f85152bd-d35d-43de-baa9-332e8e44f083";
+
+      function createServerWithStore() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        return createServer({ rootPath: tmpDir });
+      }
+
+      it("GET /stores/:storeId/keys should return the keys without their hash", (done) => {
+        const sut = createServerWithStore();
+        chai
+          .request(sut.app)
+          .get("/stores/dummy/keys")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            expect(res.body).length(1);
+            expect(res.body[0].id).equal("default");
+            expect(res.body[0].hash).undefined;
+            done();
+          });
+      });
+
+      it("GET /stores/:storeId/keys should return HTTP 403 without admin scope", (done) => {
+        const sut = createServerWithStore();
+        const { key } = sut.db.createAccessKey({
+          name: "ci",
+          scopes: ["upload"],
+          storeId: "dummy",
+        });
+        chai
+          .request(sut.app)
+          .get("/stores/dummy/keys")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", key)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(403);
+            done();
+          });
+      });
+
+      it("POST /stores/:storeId/keys should create the key", (done) => {
+        const sut = createServerWithStore();
+        chai
+          .request(sut.app)
+          .post("/stores/dummy/keys")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ name: "ci", scopes: ["upload"] })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(201);
+            expect(res.body.name).equal("ci");
+            expect(res.body.hash).undefined;
+            const accessKey = sut.db.findAccessKey({
+              key: res.body.key,
+              storeId: "dummy",
+            });
+            expect(accessKey!.scopes).deep.equal(["upload"]);
+            done();
+          });
+      });
+
+      it("POST /stores/:storeId/keys should return HTTP 400 for invalid scopes", (done) => {
+        const sut = createServerWithStore();
+        chai
+          .request(sut.app)
+          .post("/stores/dummy/keys")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ name: "ci", scopes: ["write"] })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(400);
+            done();
+          });
+      });
+
+      it("POST /stores/:storeId/keys/:keyId/rotate should replace the key", (done) => {
+        const sut = createServerWithStore();
+        chai
+          .request(sut.app)
+          .post("/stores/dummy/keys/default/rotate")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            expect(sut.db.findAccessKey({ key: adminKey, storeId: "dummy" }))
+              .undefined;
+            expect(
+              sut.db.findAccessKey({ key: res.body.key, storeId: "dummy" }),
+            ).not.undefined;
+            done();
+          });
+      });
+
+      it("DELETE /stores/:storeId/keys/:keyId should revoke the key", (done) => {
+        const sut = createServerWithStore();
+        const { accessKey } = sut.db.createAccessKey({
+          name: "ci",
+          scopes: ["upload"],
+          storeId: "dummy",
+        });
+        chai
+          .request(sut.app)
+          .delete(`/stores/dummy/keys/${accessKey.id}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            expect(sut.db.getAccessKeys("dummy")).length(1);
+            done();
+          });
+      });
+
+      it("DELETE /stores/:storeId/keys/:keyId should return HTTP 404 if the key does not exist", (done) => {
+        const sut = createServerWithStore();
+        chai
+          .request(sut.app)
+          .delete("/stores/dummy/keys/unknown")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(404);
+            done();
+          });
+      });
+
+      it("DELETE /stores/:storeId/keys/:keyId should not revoke the last admin key", (done) => {
+        const sut = createServerWithStore();
         chai
           .request(sut.app)
-          .get(
-            "/assets/img/img@2x.png?platform=android&hash=70d6fbba5502a18a0c052b6f6cb3fc32",
-          )
-          .buffer(true)
-          .parse(binaryParser)
+          .delete("/stores/dummy/keys/default")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(Buffer.compare(res.body, expectedAsset)).equal(0);
+            expect(res).to.have.status(409);
+            expect(sut.db.getAccessKeys("dummy")).length(1);
+            done();
+          });
+      });
+
+      it("DELETE /stores/:storeId/keys/:keyId should not revoke the last unexpired admin key", async () => {
+        const sut = createServerWithStore();
+        sut.db.createAccessKey({
+          expiresAt: Date.now() - 1000,
+          name: "expired",
+          scopes: ["admin"],
+          storeId: "dummy",
+        });
+        const res = await chai
+          .request(sut.app)
+          .delete("/stores/dummy/keys/default")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(409);
+        expect(res.body.code).equal("LAST_ADMIN_KEY");
+        expect(sut.db.getAccessKeys("dummy")).length(2);
+      });
+
+      it("DELETE /stores/:storeId should return HTTP 403 without delete scope", (done) => {
+        const sut = createServerWithStore();
+        const { key } = sut.db.createAccessKey({
+          name: "ci",
+          scopes: ["upload"],
+          storeId: "dummy",
+        });
+        chai
+          .request(sut.app)
+          .delete("/stores/dummy")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", key)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(403);
+            expect(sut.db.hasStore("dummy")).true;
+            done();
+          });
+      });
+
+      it("should return HTTP 403 for an expired key", (done) => {
+        const sut = createServerWithStore();
+        const { key } = sut.db.createAccessKey({
+          expiresAt: Date.now() - 1000,
+          name: "ci",
+          scopes: ["admin"],
+          storeId: "dummy",
+        });
+        chai
+          .request(sut.app)
+          .get("/stores/dummy/keys")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", key)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(403);
             done();
           });
       });
     });
 
-    describe("GET /bundles/:storeId/:platform/:bundleId/index.bundle", () => {
-      it("should return HTTP 404 if the store does not exist", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
+    describe("private stores", () => {
+      const adminKey = "f85152bd-d35d-43de-baa9-332e8e44f083";
+      const bundleId = "9e122bee-9a90-4158-9205-6759751d80dd";
+
+      function createPrivateServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        sut.db.setStorePrivate({ isPrivate: true, storeId: "dummy" });
+        return sut;
+      }
+
+      function createReadToken(sut: BundleStoreServer, scopes = ["read"]) {
+        const { accessKey } = sut.db.createAccessKey({
+          name: "tester",
+          scopes: scopes as AccessKeyScope[],
+          storeId: "dummy",
+        });
+        return sut.db.createAccessToken({
+          expiresAt: Date.now() + 60000,
+          keyId: accessKey.id,
+          storeId: "dummy",
+        });
+      }
+
+      it("PATCH /stores/:storeId should make the store private", (done) => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
         chai
           .request(sut.app)
-          .get(
-            "/bundles/unkstore/android/790f95fd-2b02-4774-bb78-5de4b7dc73b8/index.bundle",
-          )
+          .patch("/stores/dummy")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ private: true })
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(404);
+            expect(res).to.have.status(200);
+            expect(res.body.private).true;
+            expect(sut.db.getStore("dummy").private).true;
             done();
           });
       });
 
-      it("should return HTTP 404 if the bundle does not exist", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
+      it("PATCH /stores/:storeId should return HTTP 400 if private is not a boolean", (done) => {
+        const sut = createPrivateServer();
         chai
           .request(sut.app)
-          .get(
-            "/bundles/dummy/android/11111111-2b02-4774-bb78-5de4b7dc73b8/index.bundle",
-          )
+          .patch("/stores/dummy")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ private: "yes" })
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(404);
+            expect(res).to.have.status(400);
             done();
           });
       });
 
-      it("should return the bundle [specific id]", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        const expectedBundle = fs.readFileSync(
-          path.join(
-            storeFixturePath,
-            "bundles",
-            "9e122bee-9a90-4158-9205-6759751d80dd",
-          ),
-        );
+      it("should return HTTP 400 if no access key or token is provided", (done) => {
+        const sut = createPrivateServer();
         chai
           .request(sut.app)
-          .get(
-            "/bundles/dummy/android/9e122bee-9a90-4158-9205-6759751d80dd/index.bundle",
-          )
+          .get(`/bundles/dummy/android/${bundleId}/index.bundle`)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(400);
+            done();
+          });
+      });
+
+      it("should return HTTP 403 if the access key lacks the read scope", (done) => {
+        const sut = createPrivateServer();
+        const { key } = sut.db.createAccessKey({
+          name: "ci",
+          scopes: ["upload"],
+          storeId: "dummy",
+        });
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", key)
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(403);
+            done();
+          });
+      });
+
+      it("should serve the bundle given an access key with the read scope", (done) => {
+        const sut = createPrivateServer();
+        const { key } = sut.db.createAccessKey({
+          name: "tester",
+          scopes: ["read"],
+          storeId: "dummy",
+        });
+        chai
+          .request(sut.app)
+          .get(`/bundles/dummy/android/${bundleId}/index.bundle`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", key)
           .buffer(true)
           .parse(binaryParser)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(Buffer.compare(res.body, expectedBundle)).equal(0);
+            expect(res).to.have.status(200);
             done();
           });
       });
 
-      it("should return the bundle [latest]", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        const expectedBundle = fs.readFileSync(
-          path.join(
-            storeFixturePath,
-            "bundles",
-            "9e122bee-9a90-4158-9205-6759751d80dd",
-          ),
-        );
+      it("should serve the bundle given a token in the query string", (done) => {
+        const sut = createPrivateServer();
+        const token = createReadToken(sut);
         chai
           .request(sut.app)
-          .get("/bundles/dummy/android/latest/index.bundle")
+          .get(`/bundles/dummy/android/${bundleId}/index.bundle`)
+          .query({ token })
           .buffer(true)
           .parse(binaryParser)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(Buffer.compare(res.body, expectedBundle)).equal(0);
+            expect(res).to.have.status(200);
             done();
           });
       });
 
-      it("should set Content-Type header to application/javascript in response", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        const expectedBundle = fs.readFileSync(
-          path.join(
-            storeFixturePath,
-            "bundles",
-            "9e122bee-9a90-4158-9205-6759751d80dd",
-          ),
+      it("should return HTTP 403 given a tampered token", (done) => {
+        const sut = createPrivateServer();
+        const token = createReadToken(sut).replace(
+          /\.(\d+)\./,
+          ".99999999999999.",
         );
         chai
           .request(sut.app)
-          .get("/bundles/dummy/android/latest/index.bundle")
-          .buffer(true)
-          .parse(binaryParser)
+          .get("/labels/dummy")
+          .query({ token })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(403);
+            done();
+          });
+      });
+
+      it("should return HTTP 403 given a token of a revoked access key", (done) => {
+        const sut = createPrivateServer();
+        const token = createReadToken(sut);
+        sut.db.revokeAccessKey({
+          keyId: token.split(".")[0],
+          storeId: "dummy",
+        });
+        chai
+          .request(sut.app)
+          .get("/bundles/dummy/android")
+          .query({ token })
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(403);
+            done();
+          });
+      });
+
+      it("POST /symbolicate should accept the token of the bundle url", (done) => {
+        const sut = createPrivateServer();
+        const token = createReadToken(sut);
+        const stack = [
+          {
+            column: 1,
+            file: `http://localhost:3000/bundles/dummy/android/${bundleId}/index.bundle?token=${token}`,
+            lineNumber: 1,
+            methodName: "foo",
+          },
+        ];
+        sut.symbolicate = async (frames) => ({
+          codeFrame: null,
+          stack: frames,
+        });
+        chai
+          .request(sut.app)
+          .post("/symbolicate")
+          .set("Content-Type", "text/plain")
+          .send(JSON.stringify({ stack }))
+          .end((err, res) => {
+            if (err) {
+              return done(err);
+            }
+            expect(res).to.have.status(200);
+            done();
+          });
+      });
+
+      it("POST /symbolicate should return HTTP 400 without access key or token", (done) => {
+        const sut = createPrivateServer();
+        const stack = [
+          {
+            column: 1,
+            file: `http://localhost:3000/bundles/dummy/android/${bundleId}/index.bundle`,
+            lineNumber: 1,
+            methodName: "foo",
+          },
+        ];
+        chai
+          .request(sut.app)
+          .post("/symbolicate")
+          .set("Content-Type", "text/plain")
+          .send(JSON.stringify({ stack }))
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res.header["content-type"]).equal("application/javascript");
+            expect(res).to.have.status(400);
             done();
           });
       });
-    });
 
-    describe("GET /bundles/:storeId/:platform/:bundleId/index.map", () => {
-      it("should return HTTP 404 if the store does not exist", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
+      it("POST /stores/:storeId/tokens should return a token usable in place of the access key", (done) => {
+        const sut = createPrivateServer();
         chai
           .request(sut.app)
-          .get(
-            "/bundles/unkstore/android/790f95fd-2b02-4774-bb78-5de4b7dc73b8/index.map",
-          )
+          .post("/stores/dummy/tokens")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({})
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(404);
+            expect(res).to.have.status(201);
+            expect(res.body.expiresAt).greaterThan(Date.now());
+            expect(
+              sut.db.findAccessKeyByToken({
+                storeId: "dummy",
+                token: res.body.token,
+              })!.id,
+            ).equal("default");
             done();
           });
       });
 
-      it("should return HTTP 404 if the source map does not exist", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
+      it("POST /stores/:storeId/tokens should return HTTP 400 for a past expiry", (done) => {
+        const sut = createPrivateServer();
         chai
           .request(sut.app)
-          .get(
-            "/bundles/dummy/android/11111111-2b02-4774-bb78-5de4b7dc73b8/index.map",
-          )
+          .post("/stores/dummy/tokens")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ expiresAt: Date.now() - 1000 })
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(404);
+            expect(res).to.have.status(400);
             done();
           });
       });
+    });
 
-      it("should return the source map [specific id]", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        const expectedSourceMap = fs.readFileSync(
-          path.join(
-            storeFixturePath,
-            "sourcemaps",
-            "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
-          ),
-        );
+    describe("signed urls", () => {
+      const adminKey = "f85152bd-d35d-43de-baa9-332e8e44f083";
+      const bundleId = "9e122bee-9a90-4158-9205-6759751d80dd";
+
+      function createPrivateServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        sut.db.setStorePrivate({ isPrivate: true, storeId: "dummy" });
+        return sut;
+      }
+
+      function signBundlePath(sut: BundleStoreServer, expiresAt: number) {
+        const resource = `/bundles/dummy/android/${bundleId}/index.bundle`;
+        const signature = sut.db.signResource({
+          expiresAt,
+          keyId: "default",
+          resource,
+          storeId: "dummy",
+        });
+        const query = `expires=${expiresAt}&keyId=default&signature=${signature}`;
+        return `${resource}?${query}`;
+      }
+
+      it("POST /bundles/:storeId/:platform/:bundleId/signed-url should return a signed url of the bundle", (done) => {
+        const sut = createPrivateServer();
         chai
           .request(sut.app)
-          .get(
-            "/bundles/dummy/android/9e122bee-9a90-4158-9205-6759751d80dd/index.map",
-          )
-          .buffer(true)
-          .parse(binaryParser)
+          .post("/bundles/dummy/android/latest/signed-url")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ expiresAt: Date.now() + 60000 })
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(Buffer.compare(res.body, expectedSourceMap)).equal(0);
-            done();
+            expect(res).to.have.status(201);
+            const signedUrl = url.parse(res.body.url);
+            expect(signedUrl.pathname).equal(
+              `/bundles/dummy/android/${bundleId}/index.bundle`,
+            );
+            chai
+              .request(sut.app)
+              .get(signedUrl.path!)
+              .buffer(true)
+              .parse(binaryParser)
+              .end((err2, res2) => {
+                if (err2) {
+                  return done(err2);
+                }
+                expect(res2).to.have.status(200);
+                done();
+              });
           });
       });
 
-      it("should return the source map [latest]", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        const expectedSourceMap = fs.readFileSync(
-          path.join(
-            storeFixturePath,
-            "sourcemaps",
-            "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
-          ),
-        );
+      it("POST /bundles/:storeId/:platform/:bundleId/signed-url should return HTTP 403 without read scope", (done) => {
+        const sut = createPrivateServer();
+        const { key } = sut.db.createAccessKey({
+          name: "ci",
+          scopes: ["upload"],
+          storeId: "dummy",
+        });
         chai
           .request(sut.app)
-          .get("/bundles/dummy/android/latest/index.map")
-          .buffer(true)
-          .parse(binaryParser)
+          .post("/bundles/dummy/android/latest/signed-url")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", key)
+          .send({})
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(Buffer.compare(res.body, expectedSourceMap)).equal(0);
+            expect(res).to.have.status(403);
             done();
           });
       });
-    });
 
-    describe("POST /bundles/:storeId/:platform", () => {
-      it("shoud return HTTP 400 is the acces key is missing", (done) => {
-        const tmpDir = createTmpDir();
-        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
-        const bundleRs = fs.createReadStream(
-          path.join(fixturesPath, "index.bundle"),
-        );
-        const sourceMapRs = fs.createReadStream(
-          path.join(fixturesPath, "index.map"),
-        );
+      it("POST /bundles/:storeId/:platform/:bundleId/signed-url should return HTTP 404 for unknown bundles", (done) => {
+        const sut = createPrivateServer();
         chai
           .request(sut.app)
-          .post("/bundles/dummy/android")
-          .attach("bundle", bundleRs)
-          .attach("sourcemap", sourceMapRs)
+          .post("/bundles/dummy/android/unknown/signed-url")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({})
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(400);
+            expect(res).to.have.status(404);
             done();
           });
       });
 
-      it("shoud return HTTP 403 is the acces key is not the store access key", (done) => {
-        const tmpDir = createTmpDir();
-        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
-        const bundleRs = fs.createReadStream(
-          path.join(fixturesPath, "index.bundle"),
-        );
-        const sourceMapRs = fs.createReadStream(
-          path.join(fixturesPath, "index.map"),
-        );
+      it("should return HTTP 403 for an expired signed url", (done) => {
+        const sut = createPrivateServer();
         chai
           .request(sut.app)
-          .post("/bundles/dummy/android")
-          .set(
-            "ERN-BUNDLE-STORE-ACCESS-KEY",
-            "11111111-d35d-43de-baa9-332e8e44f083",
-          )
-          .attach("bundle", bundleRs)
-          .attach("sourcemap", sourceMapRs)
+          .get(signBundlePath(sut, Date.now() - 1000))
           .end((err, res) => {
             if (err) {
               return done(err);
@@ -701,172 +4345,489 @@ describe("server", () => {
           });
       });
 
-      it("shoud return HTTP 400 is the store does not exist", (done) => {
+      it("should serve an expired signed url of a public store", async () => {
         const tmpDir = createTmpDir();
         shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
         const sut = createServer({ rootPath: tmpDir });
-        const bundleRs = fs.createReadStream(
-          path.join(fixturesPath, "index.bundle"),
-        );
-        const sourceMapRs = fs.createReadStream(
-          path.join(fixturesPath, "index.map"),
+        const res = await chai
+          .request(sut.app)
+          .get(signBundlePath(sut, Date.now() - 1000))
+          .buffer(true)
+          .parse(binaryParser);
+        expect(res).to.have.status(200);
+      });
+
+      it("should return HTTP 403 if the signed url expiry was tampered with", (done) => {
+        const sut = createPrivateServer();
+        const signedPath = signBundlePath(sut, Date.now() + 60000).replace(
+          /expires=\d+/,
+          "expires=99999999999999",
         );
         chai
           .request(sut.app)
-          .post("/bundles/unkstore/android")
-          .set(
-            "ERN-BUNDLE-STORE-ACCESS-KEY",
-            "f85152bd-d35d-43de-baa9-332e8e44f083",
-          )
-          .attach("bundle", bundleRs)
-          .attach("sourcemap", sourceMapRs)
+          .get(signedPath)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(404);
+            expect(res).to.have.status(403);
             done();
           });
       });
 
-      it("shoud add the bundle and the source map to the store", (done) => {
-        const tmpDir = createTmpDir();
-        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
-        const bundleRs = fs.createReadStream(
-          path.join(fixturesPath, "index.bundle"),
-        );
-        const sourceMapRs = fs.createReadStream(
-          path.join(fixturesPath, "index.map"),
+      it("should return HTTP 403 if the signature is used for another resource", (done) => {
+        const sut = createPrivateServer();
+        const signedPath = signBundlePath(sut, Date.now() + 60000).replace(
+          "index.bundle",
+          "index.map",
         );
         chai
           .request(sut.app)
-          .post("/bundles/dummy/android")
-          .set(
-            "ERN-BUNDLE-STORE-ACCESS-KEY",
-            "f85152bd-d35d-43de-baa9-332e8e44f083",
-          )
-          .attach("bundle", bundleRs)
-          .attach("sourcemap", sourceMapRs)
+          .get(signedPath)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.be.json;
-            expect(res.body.id).not.undefined;
-            expect(res.body.sourceMap).not.undefined;
+            expect(res).to.have.status(403);
             done();
           });
       });
 
-      it("shoud return HTTP 201", (done) => {
+      it("should return HTTP 403 if the signature is not hexadecimal", async () => {
+        const sut = createPrivateServer();
+        const signedPath = signBundlePath(sut, Date.now() + 60000).replace(
+          /signature=[0-9a-f]{2}/,
+          "signature=%C3%A9%C3%A9",
+        );
+        const res = await chai.request(sut.app).get(signedPath);
+        expect(res).to.have.status(403);
+      });
+
+      it("should return HTTP 403 if the signature was made with another secret", async () => {
+        const sut = createPrivateServer();
+        const other = createServer({
+          rootPath: path.dirname(sut.config.paths.db),
+          signingSecret: "other-secret",
+        });
+        const res = await chai
+          .request(sut.app)
+          .get(signBundlePath(other, Date.now() + 60000));
+        expect(res).to.have.status(403);
+      });
+
+      it("should keep the generated signing secret out of the database", async () => {
         const tmpDir = createTmpDir();
         shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
-        const bundleRs = fs.createReadStream(
-          path.join(fixturesPath, "index.bundle"),
-        );
-        const sourceMapRs = fs.createReadStream(
-          path.join(fixturesPath, "index.map"),
+        const sut = createServer({
+          rootPath: tmpDir,
+          signingSecret: undefined,
+        });
+        const secret = fs.readFileSync(path.join(tmpDir, "secret")).toString();
+        expect(secret).match(/^[0-9a-f]{64}$/);
+        expect(fs.readFileSync(sut.config.paths.db).toString()).not.include(
+          secret,
         );
+        const signedPath = signBundlePath(sut, Date.now() + 60000);
+        const restarted = createServer({
+          rootPath: tmpDir,
+          signingSecret: undefined,
+        });
+        restarted.db.setStorePrivate({ isPrivate: true, storeId: "dummy" });
+        const res = await chai.request(restarted.app).get(signedPath);
+        expect(res).to.have.status(200);
+      });
+
+      it("should return HTTP 403 once the signing access key is rotated", (done) => {
+        const sut = createPrivateServer();
+        const signedPath = signBundlePath(sut, Date.now() + 60000);
+        sut.db.rotateAccessKey({ keyId: "default", storeId: "dummy" });
         chai
           .request(sut.app)
-          .post("/bundles/dummy/android")
-          .set(
-            "ERN-BUNDLE-STORE-ACCESS-KEY",
-            "f85152bd-d35d-43de-baa9-332e8e44f083",
-          )
-          .attach("bundle", bundleRs)
-          .attach("sourcemap", sourceMapRs)
+          .get(signedPath)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(201);
+            expect(res).to.have.status(403);
             done();
           });
       });
     });
 
-    describe("GET /bundles/:storeId", () => {
-      it("should return 400 if the store does not exit", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        chai
+    describe("DELETE /bundles/:storeId/:platform/:bundleId", () => {
+      const adminKey = "f85152bd-d35d-43de-baa9-332e8e44f083";
+      const bundleId = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+
+      function createDeleteServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        return createServer({ rootPath: tmpDir });
+      }
+
+      it("should delete the bundle and its files", async () => {
+        const sut = createDeleteServer();
+        const bundle = sut.db.getBundle({ bundleId, storeId: "dummy" });
+        await sut.blobStore.put(`bundles/${bundleId}`, Buffer.from("a"));
+        await sut.blobStore.put(
+          `sourcemaps/${bundle.sourceMap}`,
+          Buffer.from("b"),
+        );
+        const res = await chai
           .request(sut.app)
-          .get("/bundles/unkstore")
-          .end((err, res) => {
-            if (err) {
-              return done(err);
-            }
-            expect(res).to.have.status(404);
-            done();
-          });
+          .delete(`/bundles/dummy/android/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(200);
+        expect(res.body.id).equal(bundleId);
+        expect(sut.db.hasBundle({ bundleId, storeId: "dummy" })).false;
+        expect(await sut.blobStore.has(`bundles/${bundleId}`)).false;
+        expect(await sut.blobStore.has(`sourcemaps/${bundle.sourceMap}`)).false;
+      });
+
+      it("should return HTTP 403 without delete scope", async () => {
+        const sut = createDeleteServer();
+        const { key } = sut.db.createAccessKey({
+          name: "uploader",
+          scopes: ["upload"],
+          storeId: "dummy",
+        });
+        const res = await chai
+          .request(sut.app)
+          .delete(`/bundles/dummy/android/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", key);
+        expect(res).to.have.status(403);
+        expect(sut.db.hasBundle({ bundleId, storeId: "dummy" })).true;
+      });
+
+      it("should return HTTP 404 if the bundle is not of the platform", async () => {
+        const sut = createDeleteServer();
+        const res = await chai
+          .request(sut.app)
+          .delete(`/bundles/dummy/ios/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(404);
+        expect(sut.db.hasBundle({ bundleId, storeId: "dummy" })).true;
+      });
+
+      it("should return HTTP 409 if a label points at the bundle", async () => {
+        const sut = createDeleteServer();
+        sut.db.setLabel({
+          bundleId,
+          name: "qa",
+          platform: "android",
+          storeId: "dummy",
+        });
+        const res = await chai
+          .request(sut.app)
+          .delete(`/bundles/dummy/android/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(409);
+        expect(res.body.code).equal("BUNDLE_LABELED");
+        expect(res.body.details.labels).deep.equal(["qa"]);
+        expect(sut.db.hasBundle({ bundleId, storeId: "dummy" })).true;
+      });
+
+      it("should return HTTP 409 if the bundle is pinned", async () => {
+        const sut = createDeleteServer();
+        sut.db.setBundlePinned({ bundleId, pinned: true, storeId: "dummy" });
+        const res = await chai
+          .request(sut.app)
+          .delete(`/bundles/dummy/android/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(409);
+        expect(res.body.code).equal("BUNDLE_PINNED");
+        expect(sut.db.hasBundle({ bundleId, storeId: "dummy" })).true;
+      });
+
+      it("should delete a pinned bundle if forced", async () => {
+        const sut = createDeleteServer();
+        sut.db.setBundlePinned({ bundleId, pinned: true, storeId: "dummy" });
+        const res = await chai
+          .request(sut.app)
+          .delete(`/bundles/dummy/android/${bundleId}?force=true`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(200);
+        expect(sut.db.hasBundle({ bundleId, storeId: "dummy" })).false;
+      });
+    });
+
+    describe("PATCH /bundles/:storeId/:platform/:bundleId", () => {
+      const adminKey = "f85152bd-d35d-43de-baa9-332e8e44f083";
+      const bundleId = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+
+      function createPatchServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        return createServer({ rootPath: tmpDir });
+      }
+
+      it("should set the bundle metadata", async () => {
+        const sut = createPatchServer();
+        const metadata = { tags: { env: "staging" }, version: "1.2.0" };
+        const res = await chai
+          .request(sut.app)
+          .patch(`/bundles/dummy/android/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ metadata });
+        expect(res).to.have.status(200);
+        expect(res.body.metadata).deep.equal(metadata);
+        expect(
+          sut.db.getBundle({ bundleId, storeId: "dummy" }).metadata,
+        ).deep.equal(metadata);
+      });
+
+      it("should remove the bundle metadata", async () => {
+        const sut = createPatchServer();
+        sut.db.setBundleMetadata({
+          bundleId,
+          metadata: { version: "1.2.0" },
+          storeId: "dummy",
+        });
+        const res = await chai
+          .request(sut.app)
+          .patch(`/bundles/dummy/android/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ metadata: null });
+        expect(res).to.have.status(200);
+        expect(
+          sut.db.getBundle({ bundleId, storeId: "dummy" }),
+        ).not.have.property("metadata");
+      });
+
+      it("should return HTTP 400 if the metadata is invalid", async () => {
+        const sut = createPatchServer();
+        const res = await chai
+          .request(sut.app)
+          .patch(`/bundles/dummy/android/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ metadata: { version: 1 } });
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_METADATA");
+      });
+
+      it("should return HTTP 400 if the metadata is missing", async () => {
+        const sut = createPatchServer();
+        const res = await chai
+          .request(sut.app)
+          .patch(`/bundles/dummy/android/${bundleId}`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({});
+        expect(res).to.have.status(400);
+      });
+    });
+
+    describe("pins", () => {
+      const adminKey = "f85152bd-d35d-43de-baa9-332e8e44f083";
+      const bundleId = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+
+      function createPinServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        return createServer({ rootPath: tmpDir });
+      }
+
+      it("PUT /bundles/:storeId/:platform/:bundleId/pin should pin the bundle", async () => {
+        const sut = createPinServer();
+        const res = await chai
+          .request(sut.app)
+          .put(`/bundles/dummy/android/${bundleId}/pin`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(200);
+        expect(res.body.pinned).true;
+        expect(sut.db.getBundle({ bundleId, storeId: "dummy" }).pinned).true;
+      });
+
+      it("PUT /bundles/:storeId/:platform/:bundleId/pin should return HTTP 403 without upload scope", async () => {
+        const sut = createPinServer();
+        const { key } = sut.db.createAccessKey({
+          name: "reader",
+          scopes: ["read"],
+          storeId: "dummy",
+        });
+        const res = await chai
+          .request(sut.app)
+          .put(`/bundles/dummy/android/${bundleId}/pin`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", key);
+        expect(res).to.have.status(403);
+        expect(sut.db.getBundle({ bundleId, storeId: "dummy" }).pinned)
+          .undefined;
+      });
+
+      it("PUT /bundles/:storeId/:platform/:bundleId/pin should return HTTP 404 if the bundle is unknown", async () => {
+        const sut = createPinServer();
+        const res = await chai
+          .request(sut.app)
+          .put(
+            "/bundles/dummy/android/11111111-2b02-4774-bb78-5de4b7dc73b8/pin",
+          )
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(404);
+      });
+
+      it("DELETE /bundles/:storeId/:platform/:bundleId/pin should unpin the bundle", async () => {
+        const sut = createPinServer();
+        sut.db.setBundlePinned({ bundleId, pinned: true, storeId: "dummy" });
+        const res = await chai
+          .request(sut.app)
+          .delete(`/bundles/dummy/android/${bundleId}/pin`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(200);
+        expect(res.body).not.have.property("pinned");
+        expect(sut.db.getBundle({ bundleId, storeId: "dummy" }).pinned)
+          .undefined;
+      });
+
+      it("should not evict pinned bundles to honor maxBundles", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ maxBundles: 2, rootPath: tmpDir });
+        sut.db.setBundlePinned({ bundleId, pinned: true, storeId: "dummy" });
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        expect(res).to.have.status(201);
+        expect(sut.db.getStore("dummy").bundles.map((b) => b.id)).deep.equal([
+          bundleId,
+          res.body.id,
+        ]);
+      });
+
+      it("should not evict the uploaded bundle when the other bundles are pinned or labeled", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ maxBundles: 1, rootPath: tmpDir });
+        sut.db.setBundlePinned({ bundleId, pinned: true, storeId: "dummy" });
+        const res = await chai
+          .request(sut.app)
+          .post("/bundles/dummy/android")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .attach("bundle", path.join(fixturesPath, "index.bundle"))
+          .attach("sourcemap", path.join(fixturesPath, "index.map"));
+        expect(res).to.have.status(201);
+        expect(sut.db.getStore("dummy").bundles.map((b) => b.id)).deep.equal([
+          bundleId,
+          res.body.id,
+        ]);
+        const get = await chai
+          .request(sut.app)
+          .get(`/bundles/dummy/android/${res.body.id}/index.bundle`)
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(get).to.have.status(200);
+      });
+    });
+
+    describe("retention policies", () => {
+      const adminKey = "f85152bd-d35d-43de-baa9-332e8e44f083";
+      const adminToken = "3d1b5c44-0b5f-4c4e-8c0e-0a7e5b1e6c11";
+
+      function createRetentionServer(retention?: RetentionPolicy) {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ adminToken, rootPath: tmpDir });
+        if (retention) {
+          sut.db.setStoreRetention({ retention, storeId: "dummy" });
+        }
+        return sut;
+      }
+
+      it("PATCH /stores/:storeId should set the store retention policy", async () => {
+        const sut = createRetentionServer();
+        const res = await chai
+          .request(sut.app)
+          .patch("/stores/dummy")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ retention: { keepDays: 30, keepLast: 10 } });
+        expect(res).to.have.status(200);
+        expect(res.body.retention).deep.equal({ keepDays: 30, keepLast: 10 });
+        expect(sut.db.getStore("dummy").private).undefined;
+      });
+
+      it("PATCH /stores/:storeId should remove the store retention policy", async () => {
+        const sut = createRetentionServer({ keepLast: 1 });
+        const res = await chai
+          .request(sut.app)
+          .patch("/stores/dummy")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ retention: null });
+        expect(res).to.have.status(200);
+        expect(sut.db.getStore("dummy")).not.have.property("retention");
+      });
+
+      it("PATCH /stores/:storeId should return HTTP 400 if the retention policy is invalid", async () => {
+        const sut = createRetentionServer();
+        const res = await chai
+          .request(sut.app)
+          .patch("/stores/dummy")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey)
+          .send({ private: true, retention: { keepLast: -1 } });
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_RETENTION_POLICY");
+        expect(sut.db.getStore("dummy").private).undefined;
+      });
+
+      it("POST /stores/:storeId/sweep?dryRun=true should report the bundles to evict", async () => {
+        const sut = createRetentionServer({ keepLast: 1 });
+        const res = await chai
+          .request(sut.app)
+          .post("/stores/dummy/sweep?dryRun=true")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(200);
+        expect(res.body).deep.equal({
+          dryRun: true,
+          evicted: [
+            {
+              bundleId: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
+              platform: "android",
+              reason: "count",
+              storeId: "dummy",
+            },
+          ],
+        });
+        expect(sut.db.getStore("dummy").bundles).length(2);
       });
 
-      it("should return HTTP 200", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        chai
+      it("POST /stores/:storeId/sweep should evict the bundles", async () => {
+        const sut = createRetentionServer({ keepLast: 1 });
+        const res = await chai
           .request(sut.app)
-          .get("/bundles/dummy")
-          .end((err, res) => {
-            if (err) {
-              return done(err);
-            }
-            expect(res).to.have.status(200);
-            done();
-          });
+          .post("/stores/dummy/sweep")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", adminKey);
+        expect(res).to.have.status(200);
+        expect(res.body.evicted).length(1);
+        expect(sut.db.getStore("dummy").bundles).length(1);
       });
 
-      it("should return the store bundles", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        chai
+      it("POST /admin/sweep should return HTTP 403 if the admin token is invalid", async () => {
+        const sut = createRetentionServer({ keepLast: 1 });
+        const res = await chai
           .request(sut.app)
-          .get("/bundles/dummy")
-          .end((err, res) => {
-            if (err) {
-              return done(err);
-            }
-            expect(res).to.be.json;
-            expect(res.body).to.be.an("array");
-            expect(res.body).deep.equal([
-              {
-                id: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-                platform: "android",
-                sourceMap: "f7117cff-efc8-4201-a297-6e571f309c2c",
-                timestamp: 1565980792572,
-              },
-              {
-                id: "9e122bee-9a90-4158-9205-6759751d80dd",
-                platform: "android",
-                sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
-                timestamp: 1565981244558,
-              },
-            ]);
-            done();
-          });
+          .post("/admin/sweep")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", "invalid");
+        expect(res).to.have.status(403);
+        expect(sut.db.getStore("dummy").bundles).length(2);
       });
-    });
 
-    describe("GET /bundles/:storeId/:platform", () => {
-      it("should return 400 if the store does not exit", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
-        chai
+      it("POST /admin/sweep should apply the retention policy of all the stores", async () => {
+        const sut = createRetentionServer({ keepLast: 1 });
+        const res = await chai
           .request(sut.app)
-          .get("/bundles/unkstore/android")
-          .end((err, res) => {
-            if (err) {
-              return done(err);
-            }
-            expect(res).to.have.status(404);
-            done();
-          });
+          .post("/admin/sweep")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken);
+        expect(res).to.have.status(200);
+        expect(res.body.dryRun).false;
+        expect(res.body.evicted).length(1);
+        expect(sut.db.getStore("dummy").bundles).length(1);
       });
+    });
 
+    describe("GET /stores", () => {
       it("should return HTTP 200", (done) => {
         const sut = createServer({ rootPath: storeFixturePath });
         chai
           .request(sut.app)
-          .get("/bundles/dummy/android")
+          .get("/stores")
           .end((err, res) => {
             if (err) {
               return done(err);
@@ -876,210 +4837,430 @@ describe("server", () => {
           });
       });
 
-      it("should return the store bundles [android]", (done) => {
+      it("should return the stores ids", (done) => {
         const sut = createServer({ rootPath: storeFixturePath });
         chai
           .request(sut.app)
-          .get("/bundles/dummy/android")
+          .get("/stores")
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.be.json;
-            expect(res.body).to.be.an("array");
-            expect(res.body).deep.equal([
-              {
-                id: "790f95fd-2b02-4774-bb78-5de4b7dc73b8",
-                platform: "android",
-                sourceMap: "f7117cff-efc8-4201-a297-6e571f309c2c",
-                timestamp: 1565980792572,
-              },
-              {
-                id: "9e122bee-9a90-4158-9205-6759751d80dd",
-                platform: "android",
-                sourceMap: "4a1aaa5b-89ae-477f-b6d7-9747131750d7",
-                timestamp: 1565981244558,
-              },
-            ]);
+            expect(res.body).deep.equal(["dummy"]);
             done();
           });
       });
+      it("should return the store of an admin access key along with its keys", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const res = await chai
+          .request(sut.app)
+          .get("/stores?accessKey=f85152bd-d35d-43de-baa9-332e8e44f083");
+        expect(res).to.have.status(200);
+        expect(res.body.id).equal("dummy");
+        expect(res.body.accessKeys.map((k) => k.id)).deep.equal(["default"]);
+        expect(res.body.accessKeys[0]).not.have.property("hash");
+      });
 
-      it("should return the store bundles [ios]", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
+      it("should not return the access keys of the store to a non admin access key", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const { key } = sut.db.createAccessKey({
+          name: "reader",
+          scopes: ["read"],
+          storeId: "dummy",
+        });
+        const res = await chai.request(sut.app).get(`/stores?accessKey=${key}`);
+        expect(res).to.have.status(200);
+        expect(res.body.id).equal("dummy");
+        expect(res.body).not.have.property("accessKeys");
+      });
+    });
+
+    describe("admin", () => {
+      const adminToken = "3d1b5c44-0b5f-4c4e-8c0e-0a7e5b1e6c11";
+
+      function createAdminServer() {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        return createServer({ adminToken, rootPath: tmpDir });
+      }
+
+      it("POST /stores/:storeId should return HTTP 400 if the admin token is missing", (done) => {
+        const sut = createAdminServer();
         chai
           .request(sut.app)
-          .get("/bundles/dummy/ios")
+          .post("/stores/newid")
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.be.json;
-            expect(res.body).to.be.an("array");
-            expect(res.body).deep.equal([]);
+            expect(res).to.have.status(400);
+            expect(sut.db.hasStore("newid")).false;
             done();
           });
       });
-    });
 
-    describe("POST /stores/:storeId", () => {
-      it("should return HTTP 400 if store id already exist", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
+      it("POST /stores/:storeId should return HTTP 403 if the admin token is invalid", (done) => {
+        const sut = createAdminServer();
         chai
           .request(sut.app)
-          .post("/stores/dummy")
+          .post("/stores/newid")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", "invalid")
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(400);
+            expect(res).to.have.status(403);
             done();
           });
       });
 
-      it("should return HTTP 201", (done) => {
-        const tmpDir = createTmpDir();
-        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
+      it("POST /stores/:storeId should create the store given the admin token", (done) => {
+        const sut = createAdminServer();
         chai
           .request(sut.app)
           .post("/stores/newid")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
             expect(res).to.have.status(201);
+            expect(sut.db.hasStore("newid")).true;
             done();
           });
       });
 
-      it("should return the created store", (done) => {
-        const tmpDir = createTmpDir();
-        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
+      it("GET /stores should require the admin token to list the stores", (done) => {
+        const sut = createAdminServer();
         chai
           .request(sut.app)
-          .post("/stores/newid")
+          .get("/stores")
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.be.json;
-            expect(res.body.id).equal("newid");
-            expect(res.body.accessKey).not.undefined;
+            expect(res).to.have.status(400);
             done();
           });
       });
-    });
 
-    describe("DELETE /stores/:storeId", () => {
-      it("should return HTTP 404 if the store does not exist", (done) => {
+      it("should return HTTP 403 if no admin token is configured", (done) => {
         const sut = createServer({ rootPath: storeFixturePath });
         chai
           .request(sut.app)
-          .delete("/stores/unkstore")
-          .set(
-            "ERN-BUNDLE-STORE-ACCESS-KEY",
-            "f85152bd-d35d-43de-baa9-332e8e44f083",
-          )
+          .get("/admin/stores")
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.have.status(404);
+            expect(res).to.have.status(403);
             done();
           });
       });
 
-      it("should return HTTP 200", (done) => {
-        const tmpDir = createTmpDir();
-        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
+      it("GET /admin/stores should return the stores stats", (done) => {
+        const sut = createAdminServer();
         chai
           .request(sut.app)
-          .delete("/stores/dummy")
-          .set(
-            "ERN-BUNDLE-STORE-ACCESS-KEY",
-            "f85152bd-d35d-43de-baa9-332e8e44f083",
-          )
+          .get("/admin/stores")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
             expect(res).to.have.status(200);
+            expect(res.body).deep.equal([
+              {
+                accessKeys: 1,
+                bundles: 2,
+                id: "dummy",
+                labels: 0,
+                latestBundleTimestamp: 1565981244558,
+                platforms: { android: 2 },
+                private: false,
+              },
+            ]);
             done();
           });
       });
 
-      it("should delete the store", (done) => {
-        const tmpDir = createTmpDir();
-        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
+      it("GET /admin/cache should return the source maps cache stats", async () => {
+        const sut = createAdminServer();
+        const res = await chai
+          .request(sut.app)
+          .get("/admin/cache")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken);
+        expect(res).to.have.status(200);
+        expect(res.body).deep.equal({
+          sourceMaps: {
+            entries: 0,
+            evictions: 0,
+            hits: 0,
+            maxSize: 256 * 1024 * 1024,
+            misses: 0,
+            size: 0,
+          },
+        });
+      });
+
+      it("DELETE /admin/stores/:storeId should delete the store", (done) => {
+        const sut = createAdminServer();
         chai
           .request(sut.app)
-          .delete("/stores/dummy")
-          .set(
-            "ERN-BUNDLE-STORE-ACCESS-KEY",
-            "f85152bd-d35d-43de-baa9-332e8e44f083",
-          )
+          .delete("/admin/stores/dummy")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
+            expect(res).to.have.status(200);
             expect(sut.db.hasStore("dummy")).false;
             done();
           });
       });
 
-      it("should return the deleted store", (done) => {
-        const tmpDir = createTmpDir();
-        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
-        const sut = createServer({ rootPath: tmpDir });
+      it("POST /admin/stores/:storeId/reset-keys should replace the store access keys", (done) => {
+        const sut = createAdminServer();
         chai
           .request(sut.app)
-          .delete("/stores/dummy")
-          .set(
-            "ERN-BUNDLE-STORE-ACCESS-KEY",
-            "f85152bd-d35d-43de-baa9-332e8e44f083",
-          )
+          .post("/admin/stores/dummy/reset-keys")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken)
           .end((err, res) => {
             if (err) {
               return done(err);
             }
-            expect(res).to.be.json;
-            expect(res.body.id).equal("dummy");
+            expect(res).to.have.status(200);
+            expect(
+              sut.db.findAccessKey({
+                key: "f85152bd-d35d-43de-baa9-332e8e44f083",
+                storeId: "dummy",
+              }),
+            ).undefined;
+            expect(
+              sut.db.findAccessKey({ key: res.body.key, storeId: "dummy" })!
+                .scopes,
+            ).deep.equal(["admin"]);
             done();
           });
       });
+
+      it("POST /admin/gc?dryRun=true should list the unused assets", async () => {
+        const sut = createAdminServer();
+        const res = await chai
+          .request(sut.app)
+          .post("/admin/gc?dryRun=true")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken);
+        expect(res).to.have.status(200);
+        expect(res.body).deep.equal({
+          bytes: 99815,
+          collected: [
+            "47ce6e77f039020ee2e76a10c1e988e9",
+            "70d6fbba5502a18a0c052b6f6cb3fc32",
+          ],
+          dryRun: true,
+        });
+        expect(
+          await sut.blobStore.has(
+            "assets/47ce6e77f039020ee2e76a10c1e988e9/logo.png",
+          ),
+        ).true;
+      });
+
+      it("POST /admin/gc should delete the unused assets", async () => {
+        const sut = createAdminServer();
+        sut.db.addBundle({
+          bundle: {
+            assets: ["70d6fbba5502a18a0c052b6f6cb3fc32"],
+            id: "2bd1c4a1-3a6e-4d5e-9b0c-7f0c8e2d6a41",
+            platform: "ios",
+            sourceMap: "f7117cff-efc8-4201-a297-6e571f309c2c",
+            timestamp: 1565981244558,
+          },
+          storeId: "dummy",
+        });
+        const res = await chai
+          .request(sut.app)
+          .post("/admin/gc")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken);
+        expect(res).to.have.status(200);
+        expect(res.body.collected).deep.equal([
+          "47ce6e77f039020ee2e76a10c1e988e9",
+        ]);
+        expect(res.body.bytes).equal(24031);
+        expect(Object.keys(sut.db.getAssets())).deep.equal([
+          "70d6fbba5502a18a0c052b6f6cb3fc32",
+        ]);
+        expect(
+          await sut.blobStore.has(
+            "assets/47ce6e77f039020ee2e76a10c1e988e9/logo.png",
+          ),
+        ).false;
+        expect(
+          await sut.blobStore.has(
+            "assets/70d6fbba5502a18a0c052b6f6cb3fc32/img.png",
+          ),
+        ).true;
+      });
+
+      it("POST /admin/gc should return HTTP 400 if minAge is invalid", async () => {
+        const sut = createAdminServer();
+        const res = await chai
+          .request(sut.app)
+          .post("/admin/gc?minAge=-1")
+          .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken);
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_MIN_AGE");
+      });
+
+      it("POST /admin/purge?dryRun=true should list the orphaned blobs", (done) => {
+        const sut = createAdminServer();
+        sut.blobStore
+          .put("bundles/orphan", Buffer.from("orphan"))
+          .then(() => {
+            chai
+              .request(sut.app)
+              .post("/admin/purge?dryRun=true")
+              .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken)
+              .end((err, res) => {
+                if (err) {
+                  return done(err);
+                }
+                expect(res).to.have.status(200);
+                expect(res.body).deep.equal({
+                  dryRun: true,
+                  purged: ["bundles/orphan"],
+                });
+                sut.blobStore
+                  .has("bundles/orphan")
+                  .then((exists) => {
+                    expect(exists).true;
+                    done();
+                  })
+                  .catch(done);
+              });
+          })
+          .catch(done);
+      });
+
+      it("POST /admin/purge should delete the orphaned blobs", (done) => {
+        const sut = createAdminServer();
+        sut.blobStore
+          .put("sourcemaps/orphan", Buffer.from("orphan"))
+          .then(() => {
+            chai
+              .request(sut.app)
+              .post("/admin/purge")
+              .set("ERN-BUNDLE-STORE-ADMIN-TOKEN", adminToken)
+              .end((err, res) => {
+                if (err) {
+                  return done(err);
+                }
+                expect(res.body.purged).deep.equal(["sourcemaps/orphan"]);
+                Promise.all([
+                  sut.blobStore.has("sourcemaps/orphan"),
+                  sut.blobStore.has(
+                    "bundles/9e122bee-9a90-4158-9205-6759751d80dd",
+                  ),
+                ])
+                  .then(([orphanExists, bundleExists]) => {
+                    expect(orphanExists).false;
+                    expect(bundleExists).true;
+                    done();
+                  })
+                  .catch(done);
+              });
+          })
+          .catch(done);
+      });
     });
 
-    describe("GET /stores", () => {
-      it("should return HTTP 200", (done) => {
-        const sut = createServer({ rootPath: storeFixturePath });
+    describe("errors", () => {
+      const symbolicate = (sut: BundleStoreServer, bundleId: string) =>
         chai
           .request(sut.app)
-          .get("/stores")
-          .end((err, res) => {
-            if (err) {
-              return done(err);
-            }
-            expect(res).to.have.status(200);
-            done();
-          });
+          .post("/symbolicate")
+          .set("Content-Type", "text/plain")
+          .send(
+            JSON.stringify({
+              stack: [
+                {
+                  column: 1,
+                  file: `http://localhost:3000/bundles/dummy/android/${bundleId}/index.bundle`,
+                  lineNumber: 1,
+                  methodName: "foo",
+                },
+              ],
+            }),
+          );
+
+      it("should reply with a JSON error body", async () => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const res = await chai.request(sut.app).get("/bundles/unknown");
+        expect(res).to.have.status(404);
+        expect(res.body).deep.equal({
+          code: "STORE_NOT_FOUND",
+          details: { storeId: "unknown" },
+          message: "Store id unknown does not exist in database.",
+        });
       });
 
-      it("should return the stores ids", (done) => {
+      it("should reply with the error code of invalid credentials", async () => {
         const sut = createServer({ rootPath: storeFixturePath });
-        chai
+        const res = await chai
           .request(sut.app)
-          .get("/stores")
-          .end((err, res) => {
-            if (err) {
-              return done(err);
-            }
-            expect(res.body).deep.equal(["dummy"]);
-            done();
-          });
+          .delete("/stores/dummy")
+          .set("ERN-BUNDLE-STORE-ACCESS-KEY", "invalid");
+        expect(res).to.have.status(403);
+        expect(res.body.code).equal("INVALID_ACCESS_KEY");
+      });
+
+      it("should reply with HTTP 400 if the request body is not valid JSON", async () => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const res = await chai
+          .request(sut.app)
+          .patch("/stores/dummy")
+          .set("Content-Type", "application/json")
+          .send("{");
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_REQUEST");
+      });
+
+      it("should reply with HTTP 400 if the stack does not reference a bundle", async () => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const res = await chai
+          .request(sut.app)
+          .post("/symbolicate")
+          .set("Content-Type", "text/plain")
+          .send(JSON.stringify({ stack: [{ file: "http://a/b/c" }] }));
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_STACK");
+      });
+
+      it("should reply with HTTP 404 if the symbolicated bundle does not exist", async () => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        const res = await symbolicate(
+          sut,
+          "11111111-2b02-4774-bb78-5de4b7dc73b8",
+        );
+        expect(res).to.have.status(404);
+        expect(res.body.code).equal("BUNDLE_NOT_FOUND");
+      });
+
+      it("should reply with HTTP 500 without leaking unexpected errors", async () => {
+        const sut = createServer({ rootPath: storeFixturePath });
+        sut.symbolicate = async () => {
+          throw new Error("/secret/path does not exist");
+        };
+        const res = await symbolicate(sut, "latest");
+        expect(res).to.have.status(500);
+        expect(res.body).deep.equal({
+          code: "INTERNAL_ERROR",
+          message: "Internal server error",
+        });
       });
     });
 
@@ -1128,6 +5309,50 @@ describe("server", () => {
             done();
           });
       });
+
+      it("should return HTTP 400 if the archive is invalid", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const res = await chai
+          .request(sut.app)
+          .post("/assets")
+          .attach("assets", path.join(fixturesPath, "assets-traversal.zip"));
+        expect(res).to.have.status(400);
+        expect(res.body.code).equal("INVALID_ASSETS_ARCHIVE");
+        expect(fs.existsSync(path.join(tmpDir, "evil.png"))).false;
+        expect(Object.keys(sut.db.getAssets())).length(2);
+      });
+
+      it("should return HTTP 413 if the archive exceeds the maximum size", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ maxAssetsSize: 1024, rootPath: tmpDir });
+        const res = await chai
+          .request(sut.app)
+          .post("/assets")
+          .attach("assets", path.join(fixturesPath, "assets.zip"));
+        expect(res).to.have.status(413);
+        expect(res.body.code).equal("ASSETS_TOO_LARGE");
+        expect(Object.keys(sut.db.getAssets())).length(2);
+      });
+
+      it("should return HTTP 409 if an asset conflicts with an existing asset", async () => {
+        const tmpDir = createTmpDir();
+        shell.cp("-rf", path.join(storeFixturePath, "*"), tmpDir);
+        const sut = createServer({ rootPath: tmpDir });
+        const res = await chai
+          .request(sut.app)
+          .post("/assets")
+          .attach("assets", path.join(fixturesPath, "assets-conflict.zip"));
+        expect(res).to.have.status(409);
+        expect(res.body.code).equal("ASSET_CONFLICT");
+        expect(
+          fs.existsSync(
+            path.join(tmpDir, "assets/ffc71969f5f0d7b4142f729a755bc50a"),
+          ),
+        ).false;
+      });
     });
 
     describe("POST /assets/delta", () => {
@@ -0,0 +1,225 @@
+/// <reference types="../types/index" />
+
+import { expect } from "chai";
+import fs from "fs";
+import "mocha";
+import path from "path";
+import tmp from "tmp";
+import { JsonBundleStoreDb } from "../src/JsonBundleStoreDb";
+
+describe("JsonBundleStoreDb", () => {
+  tmp.setGracefulCleanup();
+
+  function parseJsonFile(file: string): any {
+    const f = fs.readFileSync(file).toString();
+    return JSON.parse(f);
+  }
+
+  function createDb(seed?: Db): { db: JsonBundleStoreDb; dbPath: string } {
+    const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
+    const dbPath = path.join(tmpDir, "db.json");
+    return { db: new JsonBundleStoreDb({ dbPath, seed }), dbPath };
+  }
+
+  describe("constructor", () => {
+    it("should create db file if it does not exit", () => {
+      const { dbPath } = createDb();
+      expect(fs.existsSync(dbPath)).true;
+    });
+
+    it("should create db with default seed", () => {
+      const { dbPath } = createDb();
+      const db = parseJsonFile(dbPath);
+      expect(db).deep.equal({
+        assets: {},
+        stores: {},
+      });
+    });
+
+    it("should create db with custom seed", () => {
+      const seed = {
+        assets: {
+          "47ce6e77f039020ee2e76a10c1e988e9": {},
+        },
+        stores: {},
+      };
+      const { dbPath } = createDb(seed);
+      const db = parseJsonFile(dbPath);
+      expect(db).deep.equal(seed);
+    });
+
+    it("should not overwrite existing db file", () => {
+      const dbData = {
+        assets: {
+          "47ce6e77f039020ee2e76a10c1e988e9": {},
+        },
+        stores: {},
+      };
+      const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
+      const dbPath = path.join(tmpDir, "db.json");
+      fs.writeFileSync(dbPath, JSON.stringify(dbData));
+      createDb();
+      const db = parseJsonFile(dbPath);
+      expect(db).deep.equal(dbData);
+    });
+  });
+
+  describe("constructor [upgrade]", () => {
+    it("should persist the hashed legacy access keys and delete the backups", () => {
+      const legacyKey = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+      const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
+      const dbPath = path.join(tmpDir, "db.json");
+      const legacyDb = JSON.stringify({
+        assets: {},
+        stores: { dummy: { accessKey: legacyKey, bundles: [], id: "dummy" } },
+      });
+      fs.writeFileSync(dbPath, legacyDb);
+      fs.writeFileSync(`${dbPath}.1`, legacyDb);
+      const sut = new JsonBundleStoreDb({ dbPath });
+      expect(fs.readFileSync(dbPath).toString()).not.include(legacyKey);
+      expect(fs.existsSync(`${dbPath}.1`)).false;
+      expect(sut.findAccessKey({ key: legacyKey, storeId: "dummy" })).not
+        .undefined;
+    });
+  });
+
+  describe("constructor [recovery]", () => {
+    function waitForWarning(): Promise<Error> {
+      return new Promise((resolve) => {
+        const listener = (warning: Error) => {
+          if (warning.message.includes("Recovered database")) {
+            process.removeListener("warning", listener);
+            resolve(warning);
+          }
+        };
+        process.on("warning", listener);
+      });
+    }
+
+    it("should recover a corrupt db file from the most recent backup", async () => {
+      const { db, dbPath } = createDb();
+      db.createStore("foo");
+      const expectedData = db.data;
+      db.createStore("bar");
+      fs.writeFileSync(dbPath, `{"assets":{},"sto`);
+      const warning = waitForWarning();
+      const sut = new JsonBundleStoreDb({ dbPath });
+      expect(sut.data).deep.equal(expectedData);
+      expect(parseJsonFile(dbPath)).deep.equal(expectedData);
+      expect((await warning).message).includes(`${dbPath}.1`);
+    });
+
+    it("should recover a missing db file from the most recent backup", async () => {
+      const { db, dbPath } = createDb();
+      db.createStore("foo");
+      const expectedData = db.data;
+      db.createStore("bar");
+      fs.unlinkSync(dbPath);
+      const warning = waitForWarning();
+      const sut = new JsonBundleStoreDb({ dbPath });
+      expect(sut.data).deep.equal(expectedData);
+      await warning;
+    });
+
+    it("should skip corrupt backups", async () => {
+      const { db, dbPath } = createDb();
+      db.createStore("foo");
+      const expectedData = db.data;
+      db.createStore("bar");
+      db.createStore("baz");
+      fs.writeFileSync(dbPath, "");
+      fs.writeFileSync(`${dbPath}.1`, "");
+      const warning = waitForWarning();
+      const sut = new JsonBundleStoreDb({ dbPath });
+      expect(sut.data).deep.equal(expectedData);
+      expect((await warning).message).includes(`${dbPath}.2`);
+    });
+
+    it("should throw if the db file and all backups are corrupt", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("foo");
+      fs.writeFileSync(dbPath, "");
+      fs.writeFileSync(`${dbPath}.1`, "");
+      expect(() => new JsonBundleStoreDb({ dbPath })).to.throw();
+    });
+
+    it("should replay the journaled mutations", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("dummy");
+      fs.writeFileSync(
+        db.journalPath,
+        `${JSON.stringify({ storeId: "dummy", type: "delStore" })}\n`,
+      );
+      const sut = new JsonBundleStoreDb({ dbPath });
+      expect(sut.hasStore("dummy")).false;
+      expect(parseJsonFile(dbPath).stores).deep.equal({});
+      expect(fs.readFileSync(db.journalPath).toString()).equal("");
+    });
+
+    it("should not duplicate journaled mutations already in the db file", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("dummy");
+      const bundle: Bundle = {
+        id: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+        platform: "android",
+        sourceMap: "e4b87a58-7cb1-408f-a30f-1ddef2e1b972",
+        timestamp: 1566351493255,
+      };
+      db.addBundle({ bundle, storeId: "dummy" });
+      fs.writeFileSync(
+        db.journalPath,
+        `${JSON.stringify({ bundle, storeId: "dummy", type: "addBundle" })}\n`,
+      );
+      const sut = new JsonBundleStoreDb({ dbPath });
+      expect(sut.getBundles({ storeId: "dummy" })).deep.equal([bundle]);
+    });
+
+    it("should drop a partially journaled mutation", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("dummy");
+      fs.writeFileSync(db.journalPath, `{"storeId":"dum`);
+      const sut = new JsonBundleStoreDb({ dbPath });
+      expect(sut.hasStore("dummy")).true;
+    });
+  });
+
+  describe("write", () => {
+    it("should write the database to the db file", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("dummy");
+      expect(parseJsonFile(dbPath)).deep.equal(db.data);
+    });
+
+    it("should not leave any temporary file behind", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("dummy");
+      expect(fs.existsSync(`${dbPath}.tmp`)).false;
+    });
+
+    it("should clear the journal once the db file is written", () => {
+      const { db } = createDb();
+      db.createStore("dummy");
+      expect(fs.readFileSync(db.journalPath).toString()).equal("");
+    });
+
+    it("should keep the previous db file as a backup", () => {
+      const { db } = createDb();
+      const previousData = db.data;
+      db.createStore("dummy");
+      expect(parseJsonFile(db.getBackupPath(1))).deep.equal(previousData);
+    });
+
+    it("should rotate the backups", () => {
+      const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
+      const dbPath = path.join(tmpDir, "db.json");
+      const db = new JsonBundleStoreDb({ backups: 2, dbPath });
+      db.createStore("foo");
+      const fooData = db.data;
+      db.createStore("bar");
+      db.createStore("baz");
+      expect(parseJsonFile(db.getBackupPath(1)).stores).keys(["foo", "bar"]);
+      expect(parseJsonFile(db.getBackupPath(2))).deep.equal(fooData);
+      expect(fs.existsSync(db.getBackupPath(3))).false;
+    });
+  });
+});
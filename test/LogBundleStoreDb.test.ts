@@ -0,0 +1,133 @@
+/// <reference types="../types/index" />
+
+import { expect } from "chai";
+import fs from "fs";
+import "mocha";
+import path from "path";
+import tmp from "tmp";
+import { LogBundleStoreDb } from "../src/LogBundleStoreDb";
+
+describe("LogBundleStoreDb", () => {
+  tmp.setGracefulCleanup();
+
+  const androidBundleA: Bundle = {
+    id: "52b4a9cd-c516-4ca7-a0a6-b310cc44345a",
+    platform: "android",
+    sourceMap: "e4b87a58-7cb1-408f-a30f-1ddef2e1b972",
+    timestamp: 1566351493255,
+  };
+
+  function readLogLines(file: string): any[] {
+    return fs
+      .readFileSync(file)
+      .toString()
+      .split("\n")
+      .filter((l) => l.length > 0)
+      .map((l) => JSON.parse(l));
+  }
+
+  function createDb({
+    compactThreshold,
+    seed,
+  }: {
+    compactThreshold?: number;
+    seed?: Db;
+  } = {}): { db: LogBundleStoreDb; dbPath: string } {
+    const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
+    const dbPath = path.join(tmpDir, "db.log");
+    return {
+      db: new LogBundleStoreDb({ compactThreshold, dbPath, seed }),
+      dbPath,
+    };
+  }
+
+  describe("constructor", () => {
+    it("should create db file if it does not exit", () => {
+      const { dbPath } = createDb();
+      expect(fs.existsSync(dbPath)).true;
+    });
+
+    it("should create db with a snapshot of the seed", () => {
+      const seed = {
+        assets: {
+          "47ce6e77f039020ee2e76a10c1e988e9": {},
+        },
+        stores: {},
+      };
+      const { dbPath } = createDb({ seed });
+      expect(readLogLines(dbPath)).deep.equal([{ db: seed, type: "snapshot" }]);
+    });
+
+    it("should replay the mutations of an existing db file", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("dummy");
+      db.addBundle({ bundle: androidBundleA, storeId: "dummy" });
+      const sut = new LogBundleStoreDb({ dbPath });
+      expect(sut.getBundles({ storeId: "dummy" })).deep.equal([androidBundleA]);
+    });
+
+    it("should drop a partially written last mutation", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("dummy");
+      fs.appendFileSync(dbPath, `{"bundle":{"id":"52b4a9cd`);
+      const sut = new LogBundleStoreDb({ dbPath });
+      expect(sut.data).deep.equal(db.data);
+      sut.addBundle({ bundle: androidBundleA, storeId: "dummy" });
+      expect(new LogBundleStoreDb({ dbPath }).data).deep.equal(sut.data);
+    });
+
+    it("should persist the hashed legacy access keys right away", () => {
+      const legacyKey = "790f95fd-2b02-4774-bb78-5de4b7dc73b8";
+      const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
+      const dbPath = path.join(tmpDir, "db.log");
+      const db = {
+        assets: {},
+        stores: { dummy: { accessKey: legacyKey, bundles: [], id: "dummy" } },
+      };
+      fs.writeFileSync(dbPath, `${JSON.stringify({ db, type: "snapshot" })}\n`);
+      const sut = new LogBundleStoreDb({ dbPath });
+      expect(fs.readFileSync(dbPath).toString()).not.include(legacyKey);
+      expect(sut.findAccessKey({ key: legacyKey, storeId: "dummy" })).not
+        .undefined;
+    });
+
+    it("should throw if the db file does not start with a snapshot", () => {
+      const tmpDir = tmp.dirSync({ unsafeCleanup: true }).name;
+      const dbPath = path.join(tmpDir, "db.log");
+      fs.writeFileSync(dbPath, `{"storeId":"dummy","type":"delStore"}\n`);
+      expect(() => new LogBundleStoreDb({ dbPath })).to.throw();
+    });
+  });
+
+  describe("persist", () => {
+    it("should append the mutations to the db file", () => {
+      const { db, dbPath } = createDb();
+      db.createAssets(["47ce6e77f039020ee2e76a10c1e988e9"], 1565981244558);
+      expect(readLogLines(dbPath)[1]).deep.equal({
+        assets: ["47ce6e77f039020ee2e76a10c1e988e9"],
+        createdAt: 1565981244558,
+        type: "createAssets",
+      });
+    });
+
+    it("should compact the db file once the threshold is reached", () => {
+      const { db, dbPath } = createDb({ compactThreshold: 2 });
+      db.createStore("dummy");
+      db.addBundle({ bundle: androidBundleA, storeId: "dummy" });
+      expect(readLogLines(dbPath)).deep.equal([
+        { db: db.data, type: "snapshot" },
+      ]);
+    });
+  });
+
+  describe("compact", () => {
+    it("should replace the db file with a snapshot of the database", () => {
+      const { db, dbPath } = createDb();
+      db.createStore("dummy");
+      db.compact();
+      expect(readLogLines(dbPath)).deep.equal([
+        { db: db.data, type: "snapshot" },
+      ]);
+    });
+  });
+});
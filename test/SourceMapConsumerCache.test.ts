@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import "mocha";
+import { SourceMapConsumerCache } from "../src/SourceMapConsumerCache";
+
+describe("SourceMapConsumerCache", () => {
+  function createLoader(size: number) {
+    const loader = {
+      destroyed: 0,
+      load: async () => {
+        loader.loaded++;
+        return {
+          consumer: { destroy: () => loader.destroyed++ } as any,
+          size,
+        };
+      },
+      loaded: 0,
+    };
+    return loader;
+  }
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it("should load the source map on cache miss only", async () => {
+    const sut = new SourceMapConsumerCache(1000);
+    const loader = createLoader(100);
+    const first = await sut.acquire("a", loader.load);
+    first.release();
+    const second = await sut.acquire("a", loader.load);
+    second.release();
+    expect(second.consumer).equal(first.consumer);
+    expect(loader.loaded).equal(1);
+    expect(sut.getStats()).deep.equal({
+      entries: 1,
+      evictions: 0,
+      hits: 1,
+      maxSize: 1000,
+      misses: 1,
+      size: 100,
+    });
+  });
+
+  it("should share the source map being loaded between concurrent requests", async () => {
+    const sut = new SourceMapConsumerCache(1000);
+    const loader = createLoader(100);
+    const [first, second] = await Promise.all([
+      sut.acquire("a", loader.load),
+      sut.acquire("a", loader.load),
+    ]);
+    expect(second.consumer).equal(first.consumer);
+    expect(loader.loaded).equal(1);
+  });
+
+  it("should evict the least recently used source maps", async () => {
+    const sut = new SourceMapConsumerCache(250);
+    const loaders = { a: createLoader(100), b: createLoader(100) };
+    (await sut.acquire("a", loaders.a.load)).release();
+    (await sut.acquire("b", loaders.b.load)).release();
+    (await sut.acquire("a", loaders.a.load)).release();
+    (await sut.acquire("c", createLoader(100).load)).release();
+    await flush();
+    expect(loaders.a.destroyed).equal(0);
+    expect(loaders.b.destroyed).equal(1);
+    expect(sut.getStats()).include({ entries: 2, evictions: 1, size: 200 });
+  });
+
+  it("should not destroy an evicted source map before it is released", async () => {
+    const sut = new SourceMapConsumerCache(1000);
+    const loader = createLoader(100);
+    const handle = await sut.acquire("a", loader.load);
+    sut.delete("a");
+    await flush();
+    expect(loader.destroyed).equal(0);
+    handle.release();
+    handle.release();
+    await flush();
+    expect(loader.destroyed).equal(1);
+    expect(sut.getStats()).include({ entries: 0, size: 0 });
+  });
+
+  it("should not cache the source maps if disabled", async () => {
+    const sut = new SourceMapConsumerCache(-1);
+    const loader = createLoader(100);
+    (await sut.acquire("a", loader.load)).release();
+    (await sut.acquire("a", loader.load)).release();
+    await flush();
+    expect(loader.loaded).equal(2);
+    expect(loader.destroyed).equal(2);
+    expect(sut.getStats()).include({ entries: 0, size: 0 });
+  });
+
+  it("should not cache the source maps failing to load", async () => {
+    const sut = new SourceMapConsumerCache(1000);
+    const load = () => Promise.reject(new Error("boom"));
+    await sut
+      .acquire("a", load)
+      .then(() => expect.fail(), (err) => expect(err.message).equal("boom"));
+    await flush();
+    expect(sut.getStats().entries).equal(0);
+  });
+});
@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import "mocha";
+import { formatStackTrace, parseStackTrace } from "../src/parseStackTrace";
+
+describe("parseStackTrace", () => {
+  it("should parse JSC stack traces", () => {
+    const text = [
+      "TypeError: undefined is not an object (evaluating 'user.name')",
+      "onPress@http://localhost:3000/bundles/dummy/android/latest/index.bundle:87771:26",
+      "global code@index.ios.bundle:12:3",
+      "forEach@[native code]",
+      "[native code]",
+      "1055:2345",
+    ].join("\n");
+    expect(parseStackTrace(text)).deep.equal({
+      message: "TypeError: undefined is not an object (evaluating 'user.name')",
+      stack: [
+        {
+          column: 26,
+          file:
+            "http://localhost:3000/bundles/dummy/android/latest/index.bundle",
+          lineNumber: 87771,
+          methodName: "onPress",
+        },
+        {
+          column: 3,
+          file: "index.ios.bundle",
+          lineNumber: 12,
+          methodName: "global code",
+        },
+        { methodName: "forEach" },
+        { methodName: "<unknown>" },
+        { column: 2345, lineNumber: 1055, methodName: "<unknown>" },
+      ],
+    });
+  });
+
+  it("should parse Hermes stack traces", () => {
+    const text = [
+      "TypeError: Cannot read property 'name' of null",
+      "    at onPress (address at index.android.bundle:1:9876)",
+      "    at anonymous (http://localhost:8081/index.bundle:10:20)",
+      "    at apply (native)",
+      "    at index.android.bundle:1:123",
+    ].join("\n");
+    expect(parseStackTrace(text)).deep.equal({
+      message: "TypeError: Cannot read property 'name' of null",
+      stack: [
+        {
+          column: 9876,
+          file: "address at index.android.bundle",
+          lineNumber: 1,
+          methodName: "onPress",
+        },
+        {
+          column: 20,
+          file: "http://localhost:8081/index.bundle",
+          lineNumber: 10,
+          methodName: "anonymous",
+        },
+        { methodName: "apply" },
+        {
+          column: 123,
+          file: "index.android.bundle",
+          lineNumber: 1,
+          methodName: "<unknown>",
+        },
+      ],
+    });
+  });
+
+  it("should parse Android logcat stack traces", () => {
+    const text = [
+      "10-19 12:00:00.123  4567  4590 I ReactNativeJS: Running application",
+      "10-19 12:00:01.456  4567  4591 E AndroidRuntime: FATAL EXCEPTION: mqt_native_modules",
+      "10-19 12:00:01.456  4567  4591 E AndroidRuntime: com.facebook.react.common.JavascriptException: TypeError: undefined is not a function, js engine: hermes, stack:",
+      "10-19 12:00:01.456  4567  4591 E AndroidRuntime: onPress@1:9876",
+      "10-19 12:00:01.456  4567  4591 E AndroidRuntime: invokeGuardedCallback@1:1234",
+      "10-19 12:00:01.456  4567  4591 E AndroidRuntime: \tat com.facebook.react.modules.core.ExceptionsManagerModule.reportException(ExceptionsManagerModule.java:83)",
+    ].join("\n");
+    expect(parseStackTrace(text)).deep.equal({
+      message: "TypeError: undefined is not a function",
+      stack: [
+        { column: 9876, lineNumber: 1, methodName: "onPress" },
+        { column: 1234, lineNumber: 1, methodName: "invokeGuardedCallback" },
+      ],
+    });
+  });
+
+  it("should parse brief logcat stack traces", () => {
+    const text = [
+      "E/ReactNativeJS( 4567): TypeError: undefined is not a function",
+      "E/ReactNativeJS( 4567): onPress@1:9876",
+    ].join("\n");
+    expect(parseStackTrace(text)).deep.equal({
+      message: "TypeError: undefined is not a function",
+      stack: [{ column: 9876, lineNumber: 1, methodName: "onPress" }],
+    });
+  });
+
+  it("should parse iOS crash logs", () => {
+    const text = [
+      "Incident Identifier: 5C3E2B7A-1F4D-4C6B-9A8E-2D7F3B1C0E9A",
+      "Hardware Model:      iPhone12,1",
+      "Exception Type:  EXC_CRASH (SIGABRT)",
+      "",
+      "Application Specific Information:",
+      "*** Terminating app due to uncaught exception 'RCTFatalException: Unhandled JS Exception: TypeError: undefined is not an object (evaluating 'user.name')', reason: 'Unhandled JS Exception: TypeError: undefined is not an object (evaluating 'user.name'), stack:",
+      "onPress@1055:2345",
+      "",
+      "Last Exception Backtrace:",
+      "0   CoreFoundation                	0x00000001a0f1c5f0 __exceptionPreprocess + 228",
+      "1   libobjc.A.dylib               	0x00000001a0130bcc objc_exception_throw + 56",
+    ].join("\n");
+    expect(parseStackTrace(text)).deep.equal({
+      message: "TypeError: undefined is not an object (evaluating 'user.name')",
+      stack: [{ column: 2345, lineNumber: 1055, methodName: "onPress" }],
+    });
+  });
+
+  it("should return an empty stack if no frame is found", () => {
+    expect(parseStackTrace("Something went wrong")).deep.equal({
+      message: "Something went wrong",
+      stack: [],
+    });
+  });
+});
+
+describe("formatStackTrace", () => {
+  it("should render the stack trace as text", () => {
+    const text = formatStackTrace({
+      message: "TypeError: Cannot read property 'name' of null",
+      stack: [
+        {
+          column: 16,
+          file: "src/App.js",
+          lineNumber: 6,
+          methodName: "onPress",
+        },
+        { file: "src/App.js", methodName: "render" },
+        { methodName: "apply" },
+        { column: 2, lineNumber: 3, methodName: "<unknown>" },
+      ],
+    });
+    expect(text).equal(
+      [
+        "TypeError: Cannot read property 'name' of null",
+        "    at onPress (src/App.js:6:16)",
+        "    at render (src/App.js)",
+        "    at apply (native)",
+        "    at <unknown> (:3:2)",
+      ].join("\n"),
+    );
+  });
+});
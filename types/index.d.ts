@@ -2,27 +2,236 @@ declare type Platform = "android" | "ios";
 
 declare interface StackFrame {
   arguments?: any[];
+  /**
+   * Whether the frame belongs to the framework (React Native internals,
+   * node modules...) and should be collapsed when displayed.
+   */
+  collapse?: boolean;
   column?: number;
   file?: string;
   lineNumber?: number;
   methodName: string;
 }
 
+/**
+ * Excerpt of the source of a symbolicated frame, pointing at the frame
+ * position.
+ */
+declare interface CodeFrame {
+  content: string;
+  fileName: string;
+  location: { column: number; row: number };
+}
+
+/**
+ * Symbolicated stack, in the same shape as the Metro server responses.
+ */
+declare interface SymbolicatedStack {
+  codeFrame: CodeFrame | null;
+  stack: StackFrame[];
+}
+
+/**
+ * Stack trace parsed from the text of a crash log.
+ */
+declare interface ParsedStackTrace {
+  message: string;
+  stack: StackFrame[];
+}
+
+/**
+ * Symbolicated crash log, along with its stack trace rendered as text.
+ */
+declare interface SymbolicatedCrashLog extends SymbolicatedStack {
+  message: string;
+  text: string;
+}
+
+/**
+ * Bundle referenced by the frames of a stack to symbolicate, identified by
+ * the segments of its url.
+ */
+declare interface SymbolicationTarget {
+  bundle?: Bundle;
+  bundleId: string;
+  bundleUrl: string;
+  platform: Platform;
+  storeId: string;
+}
+
+declare interface BundleMetadata {
+  author?: string;
+  branch?: string;
+  commit?: string;
+  description?: string;
+  tags?: { [key: string]: string };
+  version?: string;
+}
+
+declare interface BundleFilter {
+  author?: string;
+  branch?: string;
+  commit?: string;
+  tags?: { [key: string]: string };
+  version?: string;
+}
+
+declare type ContentEncoding = "br" | "gzip";
+
+/**
+ * Format of a bundle: JS source, or Hermes bytecode compiled by `hermesc`.
+ */
+declare type BundleFormat = "hbc" | "js";
+
 declare interface Bundle {
+  /**
+   * Hashes of the assets used by the bundle. Not known for bundles uploaded
+   * before asset manifests were introduced.
+   */
+  assets?: string[];
+  /**
+   * Encodings of the precompressed variants of the bundle, stored next to
+   * the bundle blob.
+   */
+  encodings?: ContentEncoding[];
+  /**
+   * Format of the bundle. Not known for bundles uploaded before Hermes
+   * bytecode bundles were supported, which are all JS bundles.
+   */
+  format?: BundleFormat;
+  /**
+   * SHA-256 of the bundle content, under which the bundle blob is stored.
+   * Bundles uploaded before blobs were content addressed do not have a
+   * hash, and their blob is stored under their id.
+   */
+  hash?: string;
+  /**
+   * Hermes bytecode compiled from a JS bundle, uploaded along with it.
+   */
+  hermes?: HermesBytecode;
   id: string;
+  metadata?: BundleMetadata;
+  /**
+   * Whether the bundle is protected from eviction and deletion.
+   */
+  pinned?: boolean;
   platform: Platform;
+  /**
+   * Size in bytes of the bundle and its source map, along with its Hermes
+   * bytecode and source map if any. Not known for bundles uploaded before
+   * retention policies were introduced.
+   */
+  size?: number;
+  /**
+   * Id of the source map blob. SHA-256 of the source map content for
+   * bundles uploaded since blobs are content addressed.
+   */
   sourceMap: string;
   timestamp: number;
 }
 
+declare interface HermesBytecode {
+  /**
+   * SHA-256 of the bytecode content, under which the bytecode blob is
+   * stored.
+   */
+  hash: string;
+  /**
+   * SHA-256 of the composed source map of the bytecode, under which the
+   * source map blob is stored.
+   */
+  sourceMap: string;
+}
+
+/**
+ * Artifact of a bundle sent by the download routes: the bundle as uploaded,
+ * or the Hermes bytecode compiled from it.
+ */
+declare interface BundleArtifact {
+  format: BundleFormat;
+  hash?: string;
+  key: string;
+  sourceMap: string;
+  sourceMapHash?: string;
+  variants: { [encoding: string]: string | undefined };
+}
+
+/**
+ * Retention rules of the bundles of a store. A bundle is kept if any of the
+ * `keepLast` or `keepDays` rules keeps it, then the oldest bundles are
+ * evicted until the store fits in `maxTotalBytes`. Pinned bundles, labeled
+ * bundles and the latest bundle of each platform are never evicted.
+ */
+declare interface RetentionPolicy {
+  /**
+   * Number of most recent bundles to keep per platform.
+   */
+  keepLast?: number;
+  /**
+   * Bundles younger than this number of days are kept.
+   */
+  keepDays?: number;
+  /**
+   * Maximum total size in bytes of the bundles of the store.
+   */
+  maxTotalBytes?: number;
+}
+
+declare type EvictionReason = "age" | "count" | "maxBundles" | "size";
+
+declare interface Eviction {
+  bundleId: string;
+  platform: Platform;
+  reason: EvictionReason;
+  storeId: string;
+}
+
+declare interface Label {
+  bundleId: string;
+  name: string;
+  platform: Platform;
+  timestamp: number;
+}
+
+declare interface Asset {
+  /**
+   * Upload timestamp of the asset. Not known for assets uploaded before
+   * asset garbage collection was introduced.
+   */
+  createdAt?: number;
+}
+
 declare interface Assets {
-  [key: string]: any;
+  [key: string]: Asset;
+}
+
+declare type AccessKeyScope = "read" | "upload" | "delete" | "admin";
+
+declare interface AccessKey {
+  createdAt: number;
+  expiresAt?: number;
+  hash: string;
+  id: string;
+  name: string;
+  scopes: AccessKeyScope[];
 }
 
 declare interface Store {
-  accessKey: string;
+  /**
+   * Plain text access key of stores created before access keys scopes
+   * were introduced. Migrated to an admin key of `accessKeys` on load.
+   */
+  accessKey?: string;
+  accessKeys?: AccessKey[];
   bundles: Bundle[];
   id: string;
+  labels?: Label[];
+  /**
+   * Whether reading the store content requires an access key with the
+   * `read` scope.
+   */
+  private?: boolean;
+  retention?: RetentionPolicy;
 }
 
 declare interface Stores {
@@ -34,6 +243,51 @@ declare interface Db {
   stores: Stores;
 }
 
+declare type DbMutation =
+  | { bundle: Bundle; storeId: string; type: "addBundle" }
+  | { bundleId: string; storeId: string; type: "delBundle" }
+  | {
+      bundleId: string;
+      metadata: BundleMetadata | null;
+      storeId: string;
+      type: "setBundleMetadata";
+    }
+  | {
+      bundleId: string;
+      pinned: boolean;
+      storeId: string;
+      type: "setBundlePinned";
+    }
+  | { label: Label; storeId: string; type: "setLabel" }
+  | { name: string; platform: Platform; storeId: string; type: "delLabel" }
+  | { store: Store; type: "createStore" }
+  | { accessKey: AccessKey; storeId: string; type: "setAccessKey" }
+  | { keyId: string; storeId: string; type: "delAccessKey" }
+  | { isPrivate: boolean; storeId: string; type: "setStorePrivate" }
+  | {
+      retention: RetentionPolicy | null;
+      storeId: string;
+      type: "setStoreRetention";
+    }
+  | { storeId: string; type: "delStore" }
+  | { assets: string[]; createdAt?: number; type: "createAssets" }
+  | { assets: string[]; type: "delAssets" };
+
+declare type DbBackend = "json" | "log";
+
+declare type BlobStoreConfig =
+  | { type: "fs" }
+  | { type: "memory" }
+  | {
+      accessKeyId: string;
+      bucket: string;
+      endpoint: string;
+      prefix?: string;
+      region?: string;
+      secretAccessKey: string;
+      type: "s3";
+    };
+
 declare interface BundleStoreServerPaths {
   assets: string;
   bundles: string;
@@ -41,11 +295,80 @@ declare interface BundleStoreServerPaths {
   db: string;
 }
 
+declare interface StoreStats {
+  accessKeys: number;
+  bundles: number;
+  id: string;
+  labels: number;
+  latestBundleTimestamp?: number;
+  platforms: { [platform: string]: number };
+  private: boolean;
+}
+
+declare interface UploadedFile {
+  /**
+   * Content of the file, not kept if the file exceeds the size limit.
+   */
+  buffer?: Buffer;
+  size: number;
+}
+
 declare interface BundleStoreServerConfig {
+  /**
+   * Token granting access to the server admin routes, and required to
+   * create or list stores. These routes are left open if not set.
+   */
+  adminToken?: string;
+  blobStore?: BlobStoreConfig;
+  /**
+   * Regular expressions matched against the file of the symbolicated
+   * frames, marking the matching frames as collapsed.
+   */
+  collapseFramePatterns: string[];
+  dbBackend?: DbBackend;
   dbSeed?: Db;
   host?: string;
   port: number;
   maxBundles: number;
+  /**
+   * Maximum number of files of uploaded assets zip files, -1 for no limit.
+   */
+  maxAssetsEntries: number;
+  /**
+   * Maximum uncompressed size in bytes of uploaded assets zip files, -1 for
+   * no limit.
+   */
+  maxAssetsSize: number;
+  /**
+   * Maximum size in bytes of uploaded bundles, -1 for no limit.
+   */
+  maxBundleSize: number;
+  /**
+   * Maximum size in bytes of uploaded source maps, -1 for no limit.
+   */
+  maxSourceMapSize: number;
+  /**
+   * Interval in milliseconds between two sweeps of the stores applying
+   * their retention policy, -1 to disable the background sweeper.
+   */
+  retentionSweepInterval: number;
+  /**
+   * Secret signing the signed urls and access tokens. Generated and kept in
+   * a `secret` file next to the database if not set. Instances sharing a
+   * blob store and database should share the same secret.
+   */
+  signingSecret?: string;
+  /**
+   * Maximum total size in bytes of the source maps kept parsed in memory
+   * between symbolication requests, -1 to disable the cache.
+   */
+  sourceMapCacheSize: number;
+  /**
+   * Interval in milliseconds between two garbage collections of the assets
+   * that are not used by any bundle, -1 to disable the background
+   * collector.
+   */
+  assetGcInterval: number;
   rootPath?: string;
   paths?: BundleStoreServerPaths;
 }
@@ -57,6 +380,11 @@ declare namespace Express {
     text: string;
     params: any;
     store: Store;
+    accessKey: AccessKey;
     bundle: Bundle;
+    bundleUrl?: string;
+    filter: BundleFilter;
+    stackFrames: StackFrame[];
+    symbolicationTargets: { [key: string]: SymbolicationTarget };
   }
 }